@@ -0,0 +1,169 @@
+/**
+ * Payment approval - asks the human to sign off on large payments via MCP elicitation
+ *
+ * Threshold comes from `approval.threshold` in config.json. Without it, no approval is asked.
+ * Other irreversible actions (withdrawals, exports, uploading local files) are confirmed the same way.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getConfig } from './config';
+import { assetAmount, getChainName, toCaip2 } from './networks';
+import { amountFields, formatMoney, parseAmountLimit, toUsdcUnits, type Money } from './money';
+import { log } from './log';
+import type { UploadConfirmation } from './request-body';
+import { PaymentRefusedError, type PaymentGuard } from './x402/client';
+
+// Humans need longer than the default 60s request timeout to read and decide
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface ApprovalRequest {
+  url: string;
+  amount: bigint;
+  network: string;
+  payTo: string;
+  asset: string;
+  description?: string;
+}
+
+export type ApprovalOutcome =
+  | { approved: true }
+  | { approved: false; reason: 'declined' | 'cancelled' | 'unsupported' | 'failed'; message: string };
+
+/** Configured approval threshold in USDC raw units, if any */
+export function getApprovalThreshold(): bigint | undefined {
+  const threshold = getConfig().approval?.threshold;
+  return threshold ? parseAmountLimit(threshold) : undefined;
+}
+
+/** Payments strictly above the threshold need approval, and so does any payment not in USDC while one is set */
+export function needsApproval(amount: Money, threshold: bigint | undefined = getApprovalThreshold()): boolean {
+  if (threshold === undefined) return false;
+  const units = toUsdcUnits(amount);
+  return units === undefined || units > threshold;
+}
+
+export async function requestApproval(server: McpServer, request: ApprovalRequest): Promise<ApprovalOutcome> {
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    return {
+      approved: false,
+      reason: 'unsupported',
+      message: 'Payment needs human approval but this MCP client does not support elicitation',
+    };
+  }
+
+  const price = formatMoney(assetAmount(request.network, request.asset, request.amount));
+  const lines = [
+    `Approve payment of ${price} (${request.amount} raw units)?`,
+    '',
+    `Resource: ${request.url}`,
+    ...(request.description ? [`Description: ${request.description}`] : []),
+    `Network: ${getChainName(request.network)} (${request.network})`,
+    `Pay to: ${request.payTo}`,
+    `Asset: ${request.asset}`,
+  ];
+
+  try {
+    const result = await server.server.elicitInput(
+      {
+        message: lines.join('\n'),
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            approve: { type: 'boolean', title: 'Approve this payment', default: false },
+          },
+          required: ['approve'],
+        },
+      },
+      { timeout: APPROVAL_TIMEOUT_MS }
+    );
+
+    if (result.action === 'accept' && result.content?.approve === true) {
+      log.info(`Payment approved: ${price} to ${request.payTo} for ${request.url}`);
+      return { approved: true };
+    }
+    if (result.action === 'cancel') {
+      return { approved: false, reason: 'cancelled', message: 'Payment approval was cancelled' };
+    }
+    return { approved: false, reason: 'declined', message: 'Payment was declined' };
+  } catch (err) {
+    return {
+      approved: false,
+      reason: 'failed',
+      message: `Payment approval failed: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+}
+
+/** Ask the human to approve payments above the threshold. Refuses with approval_denied unless they approve */
+export function approvalGuard(
+  server: McpServer,
+  url: string,
+  threshold: bigint | undefined = getApprovalThreshold()
+): PaymentGuard {
+  return async (requirement, paymentRequired) => {
+    const amount = BigInt(requirement.amount);
+    if (!needsApproval(assetAmount(requirement.network, requirement.asset, amount), threshold)) return;
+
+    const outcome = await requestApproval(server, {
+      url,
+      amount,
+      network: toCaip2(requirement.network),
+      payTo: requirement.payTo,
+      asset: requirement.asset,
+      description: requirement.description ?? paymentRequired.resource?.description,
+    });
+    if (outcome.approved) return;
+
+    throw new PaymentRefusedError('approval_denied', outcome.message, {
+      reason: outcome.reason,
+      ...amountFields('amount', assetAmount(requirement.network, requirement.asset, amount)),
+    });
+  };
+}
+
+export type Confirmation = { confirmed: true } | { confirmed: false; message: string };
+
+/** Ask the human to confirm an irreversible action via MCP elicitation */
+export async function confirmAction(server: McpServer, action: string, lines: string[]): Promise<Confirmation> {
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    return {
+      confirmed: false,
+      message: `${action} needs human confirmation but this MCP client does not support elicitation`,
+    };
+  }
+
+  try {
+    const result = await server.server.elicitInput(
+      {
+        message: lines.join('\n'),
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: { type: 'boolean', title: action, default: false },
+          },
+          required: ['confirm'],
+        },
+      },
+      { timeout: APPROVAL_TIMEOUT_MS }
+    );
+    if (result.action === 'accept' && result.content?.confirm === true) return { confirmed: true };
+    return { confirmed: false, message: `${action} was not confirmed` };
+  } catch (err) {
+    return {
+      confirmed: false,
+      message: `${action} confirmation failed: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+}
+
+/** Confirmation for local files about to be sent to a URL. Throws when the human does not confirm */
+export function uploadConfirmation(server: McpServer, url: string): UploadConfirmation {
+  return async (paths) => {
+    const confirmation = await confirmAction(server, 'Upload files', [
+      `Send ${paths.length === 1 ? 'this local file' : `these ${paths.length} local files`} to ${url}?`,
+      '',
+      ...paths,
+    ]);
+    if (!confirmation.confirmed) throw new Error(confirmation.message);
+  };
+}
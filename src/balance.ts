@@ -1,9 +1,28 @@
 /**
- * USDC balance reader
+ * Token balance reader - ERC-20 on EVM chains, SPL token accounts on Solana
+ *
+ * USDC everywhere, plus any tokens registered in config.
  */
 
-import { createPublicClient, http } from 'viem';
-import { getChain, getUSDCAddress, DEFAULT_NETWORK, toCaip2 } from './networks';
+import { formatUnits } from 'viem';
+import { address as solanaAddress } from '@solana/kit';
+import {
+  getChainConfig,
+  getChainName,
+  getDefaultNetwork,
+  getSolanaConfig,
+  getToken,
+  getTokens,
+  getUSDCAddress,
+  isSolanaNetwork,
+  isSupportedNetwork,
+  isTestnet,
+  listNetworks,
+  toCaip2,
+  type TokenConfig,
+} from './networks';
+import { formatMoney, money, toUsdcUnits, USDC, type Money } from './money';
+import { createEvmClient, withSolanaRpc } from './rpc';
 import { log } from './log';
 
 const ERC20_ABI = [
@@ -18,51 +37,85 @@ const ERC20_ABI = [
 
 export interface BalanceResult {
   balance: bigint;
-  formatted: number;
-  formattedString: string;
+  /** The balance in the decimals of the network's USDC token */
+  amount: Money;
+  /** Exact, e.g. "$12.345678" */
+  formatted: string;
   decimals: number;
   network: string;
   usdcAddress: string;
 }
 
-export async function getUSDCBalance(
-  address: `0x${string}`,
-  network: string = DEFAULT_NETWORK
-): Promise<BalanceResult> {
-  const caip2 = toCaip2(network);
-  const chain = getChain(caip2);
-  const usdcAddress = getUSDCAddress(caip2);
+/** Sum of the owner's token accounts for a mint (usually just the associated one) */
+async function getSplBalance(owner: string, network: string, mint: string): Promise<bigint> {
+  log.debug(`Reading ${mint} balance for ${owner} on ${getChainName(network)}`);
 
-  if (!chain) throw new Error(`Unsupported network: ${network}`);
-  if (!usdcAddress) throw new Error(`No USDC address for network: ${network}`);
+  const { value } = await withSolanaRpc(network, (rpc) =>
+    rpc
+      .getTokenAccountsByOwner(solanaAddress(owner), { mint: solanaAddress(mint) }, { encoding: 'jsonParsed' })
+      .send()
+  );
+  return value.reduce((sum, { account }) => sum + BigInt(account.data.parsed.info.tokenAmount.amount), 0n);
+}
 
-  log.debug(`Reading USDC balance for ${address} on ${chain.name}`);
+async function getErc20Balance(owner: string, network: string, token: string): Promise<bigint> {
+  log.debug(`Reading ${token} balance for ${owner} on ${getChainName(network)}`);
 
-  const client = createPublicClient({ chain, transport: http() });
-  const balance = await client.readContract({
-    address: usdcAddress,
+  return createEvmClient(network).readContract({
+    address: token as `0x${string}`,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
-    args: [address],
+    args: [owner as `0x${string}`],
   });
+}
+
+/** Raw balance of any token: SPL mint on Solana, ERC-20 contract on EVM chains */
+export async function getAssetBalance(address: string, network: string, asset: string): Promise<bigint> {
+  const caip2 = toCaip2(network);
+  if (getSolanaConfig(caip2)) return getSplBalance(address, caip2, asset);
+  if (getChainConfig(caip2)) return getErc20Balance(address, caip2, asset);
+  throw new Error(`Unsupported network: ${network}`);
+}
+
+/** Address must match the network: EVM address for eip155, base58 public key for solana */
+export async function getUSDCBalance(address: string, network: string = getDefaultNetwork()): Promise<BalanceResult> {
+  const caip2 = toCaip2(network);
+  if (!isSupportedNetwork(caip2)) throw new Error(`Unsupported network: ${network}`);
 
-  const decimals = 6;
-  const formatted = Number(balance) / 1_000_000;
+  const usdcAddress = getUSDCAddress(caip2);
+  if (!usdcAddress) throw new Error(`No USDC token configured on ${getChainName(caip2)}`);
+  const balance = await getAssetBalance(address, caip2, usdcAddress);
+  // A config-defined USDC can have other decimals than the usual 6
+  const decimals = getToken(caip2, usdcAddress)?.decimals ?? USDC.decimals;
+  const amount = money(balance, { ...USDC, decimals });
 
   return {
     balance,
-    formatted,
-    formattedString: `$${formatted.toFixed(2)}`,
-    decimals,
+    amount,
+    formatted: formatMoney(amount),
+    decimals: amount.decimals,
     network: caip2,
     usdcAddress,
   };
 }
 
+export interface TokenBalance {
+  token: TokenConfig;
+  balance: bigint;
+  formatted: string;
+}
+
+export async function getTokenBalance(address: string, token: TokenConfig): Promise<TokenBalance> {
+  const balance = await getAssetBalance(address, token.network, token.address);
+  return { token, balance, formatted: formatMoney(money(balance, token)) };
+}
+
+/** Compares raw units, so it works for any asset. Defaults to USDC */
 export async function hasSufficientBalance(
-  address: `0x${string}`,
+  address: string,
   requiredAmount: bigint | string,
-  network: string = DEFAULT_NETWORK
+  network: string = getDefaultNetwork(),
+  asset?: string
 ): Promise<{
   sufficient: boolean;
   currentBalance: bigint;
@@ -70,7 +123,9 @@ export async function hasSufficientBalance(
   shortfall: bigint;
 }> {
   const required = typeof requiredAmount === 'string' ? BigInt(requiredAmount) : requiredAmount;
-  const { balance } = await getUSDCBalance(address, network);
+  const balance = asset
+    ? await getAssetBalance(address, network, asset)
+    : (await getUSDCBalance(address, network)).balance;
   const sufficient = balance >= required;
 
   return {
@@ -80,3 +135,87 @@ export async function hasSufficientBalance(
     shortfall: sufficient ? 0n : required - balance,
   };
 }
+
+export interface NativeBalance {
+  balance: bigint;
+  formatted: string;
+  symbol: string;
+}
+
+/** Gas token balance: ETH/POL on EVM chains, SOL on Solana */
+export async function getNativeBalance(address: string, network: string): Promise<NativeBalance> {
+  const caip2 = toCaip2(network);
+
+  if (getSolanaConfig(caip2)) {
+    const { value } = await withSolanaRpc(caip2, (rpc) => rpc.getBalance(solanaAddress(address)).send());
+    return { balance: value, formatted: `${formatUnits(value, 9)} SOL`, symbol: 'SOL' };
+  }
+
+  const config = getChainConfig(caip2);
+  if (!config) throw new Error(`Unsupported network: ${network}`);
+  const { chain } = config;
+  const balance = await createEvmClient(caip2).getBalance({
+    address: address as `0x${string}`,
+  });
+  const { decimals, symbol } = chain.nativeCurrency;
+  return { balance, formatted: `${formatUnits(balance, decimals)} ${symbol}`, symbol };
+}
+
+export interface NetworkBalance {
+  network: string;
+  networkName: string;
+  testnet: boolean;
+  address: string;
+  usdc?: BalanceResult;
+  native?: NativeBalance;
+  /** Registered tokens other than USDC */
+  tokens: TokenBalance[];
+  errors: string[];
+}
+
+/**
+ * USDC, other registered tokens and gas balances on every known network, read in parallel.
+ * A failing RPC only marks its own network with an error.
+ */
+export async function getAllBalances(addresses: { evm: string; solana: string }): Promise<NetworkBalance[]> {
+  return Promise.all(
+    listNetworks().map(async (network) => {
+      const address = isSolanaNetwork(network) ? addresses.solana : addresses.evm;
+      const usdcAddress = getUSDCAddress(network)?.toLowerCase();
+      const others = getTokens(network).filter((t) => t.address.toLowerCase() !== usdcAddress);
+
+      const [[usdc, native], tokens] = await Promise.all([
+        Promise.allSettled([
+          usdcAddress ? getUSDCBalance(address, network) : Promise.resolve(undefined),
+          getNativeBalance(address, network),
+        ]),
+        Promise.allSettled(others.map((token) => getTokenBalance(address, token))),
+      ]);
+
+      const errors = [usdc, native, ...tokens]
+        .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+        .map((r) => (r.reason instanceof Error ? r.reason.message : String(r.reason)));
+
+      return {
+        network,
+        networkName: getChainName(network),
+        testnet: isTestnet(network),
+        address,
+        usdc: usdc.status === 'fulfilled' ? usdc.value : undefined,
+        native: native.status === 'fulfilled' ? native.value : undefined,
+        tokens: tokens.filter((r) => r.status === 'fulfilled').map((r) => r.value),
+        errors,
+      };
+    })
+  );
+}
+
+/** USDC held on mainnets and on testnets, in USDC raw units (6 decimals) whatever each network's token uses */
+export function usdcTotals(balances: NetworkBalance[]): { mainnet: bigint; testnet: bigint } {
+  const totals = { mainnet: 0n, testnet: 0n };
+  for (const b of balances) {
+    if (!b.usdc) continue;
+    totals[b.testnet ? 'testnet' : 'mainnet'] += toUsdcUnits(b.usdc.amount) ?? 0n;
+  }
+  return totals;
+}
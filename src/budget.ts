@@ -0,0 +1,113 @@
+/**
+ * Spending budgets - rolling daily/weekly/monthly limits from config.json
+ *
+ * Limits are USD, compared against the ledger in USDC raw units (6 decimals). Payments in
+ * other assets have no USD value to count, so they are refused while a budget is set.
+ *
+ * The ledger only has a payment once its response is back, so payments signed since then
+ * are reserved: checks run one at a time, and each passing check holds its amount until
+ * the payment is recorded. Payments kept for recovery count until they can no longer settle.
+ */
+
+import { getConfig, type BudgetsConfig } from './config';
+import { readLedger, sumSpentSince, type LedgerEntry } from './ledger';
+import { parseAmountLimit, toUsdcUnits, type Money } from './money';
+import { assetAmount } from './networks';
+import { outstandingPayments } from './x402/recovery';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUDGET_WINDOWS = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS,
+} as const;
+
+export type BudgetWindow = keyof typeof BUDGET_WINDOWS;
+
+export interface BudgetViolation {
+  window: BudgetWindow;
+  /** USDC raw units */
+  limit: bigint;
+  /** USDC raw units */
+  spent: bigint;
+  /** USDC raw units of payments signed but not in the ledger yet */
+  reserved: bigint;
+  amount: Money;
+  /** The payment is not in USDC, so it cannot be counted against the budget */
+  notUsdc?: boolean;
+}
+
+/** Find the first budget window that `amount` would push over its limit, counting `reserved` in every window */
+export function findBudgetViolation(
+  entries: LedgerEntry[],
+  budgets: BudgetsConfig,
+  amount: Money,
+  now: Date = new Date(),
+  reserved: bigint = 0n
+): BudgetViolation | undefined {
+  const units = toUsdcUnits(amount);
+  for (const [window, durationMs] of Object.entries(BUDGET_WINDOWS) as [BudgetWindow, number][]) {
+    const configured = budgets[window];
+    if (!configured) continue;
+
+    const limit = parseAmountLimit(configured);
+    const spent = sumSpentSince(entries, new Date(now.getTime() - durationMs));
+    if (units === undefined) {
+      return { window, limit, spent, reserved, amount, notUsdc: true };
+    }
+    if (spent + reserved + units > limit) {
+      return { window, limit, spent, reserved, amount };
+    }
+  }
+  return undefined;
+}
+
+export interface BudgetCheck {
+  violation?: BudgetViolation;
+  /** Give back the reserved amount once the payment is in the ledger, kept for recovery, or known not to be sent */
+  release: () => void;
+}
+
+/** USDC raw units held by payments that passed the check, by reservation */
+const reservations = new Map<symbol, bigint>();
+let lock: Promise<unknown> = Promise.resolve();
+
+/** Run budget checks one at a time, so concurrent payments cannot each pass against the same spending */
+function serialized<T>(fn: () => Promise<T>): Promise<T> {
+  const run = lock.then(fn);
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+/** USDC raw units signed but not in the ledger: reservations and kept payments that may still settle */
+function reservedUnits(): bigint {
+  let total = 0n;
+  for (const units of reservations.values()) total += units;
+  for (const { requirement } of outstandingPayments()) {
+    if (!requirement) continue;
+    total += toUsdcUnits(assetAmount(requirement.network, requirement.asset, requirement.amount)) ?? 0n;
+  }
+  return total;
+}
+
+/**
+ * Check a prospective payment against the configured budgets and, when it fits, reserve
+ * its amount until release(). A refused payment reserves nothing
+ */
+export function reserveBudget(
+  amount: Money,
+  budgets: BudgetsConfig | undefined = getConfig().budgets
+): Promise<BudgetCheck> {
+  const release = () => {};
+  if (!budgets) return Promise.resolve({ release });
+
+  return serialized(async () => {
+    const violation = findBudgetViolation(await readLedger(), budgets, amount, new Date(), reservedUnits());
+    if (violation) return { violation, release };
+
+    const id = Symbol('reservation');
+    reservations.set(id, toUsdcUnits(amount) ?? 0n);
+    return { release: () => reservations.delete(id) };
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Paid response cache - avoids paying twice for an identical request
+ *
+ * Stored under cache/ in the data directory (~/.x402scan-mcp by default), one JSON file per key.
+ * Keys cover method, URL, body and header hashes, the paying wallet, the quoted price and
+ * how the payment option was chosen, so a price change, different credentials, another
+ * wallet or a request for another network misses.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import { join } from 'path';
+import { dataDir } from './config';
+import { toCaip2 } from './networks';
+import { log } from './log';
+import type { NormalizedRequirement } from './x402/protocol';
+import type { SavedFile } from './downloads';
+
+const cacheDir = () => join(dataDir(), 'cache');
+
+export const DEFAULT_CACHE_TTL_SECONDS = 300;
+
+/** Only idempotent-by-intent methods are cached */
+export const CACHEABLE_METHODS = ['GET', 'POST'];
+
+export interface CachedResponse {
+  key: string;
+  method: string;
+  url: string;
+  statusCode: number;
+  data: unknown;
+  /** Binary response saved to the downloads directory */
+  file?: SavedFile;
+  settlement?: { transactionHash: string; network: string; payer: string };
+  storedAt: string;
+  expiresAt: string;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/** Header names are case-insensitive and their order carries no meaning */
+function headersHash(headers: Record<string, string> = {}): string {
+  const entries = Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]);
+  return entries.length === 0 ? '' : sha256(JSON.stringify(entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))));
+}
+
+export function paidResponseKey(opts: {
+  method: string;
+  url: string;
+  body?: unknown;
+  bodyType?: string;
+  headers?: Record<string, string>;
+  /** Paying wallet address */
+  wallet?: string;
+  accepts: NormalizedRequirement[];
+  /** Network the caller asked to pay on, if any */
+  network?: string;
+  /** How the payment option was picked among the accepted ones */
+  strategy?: string;
+}): string {
+  const bodyHash = opts.body === undefined ? '' : sha256(JSON.stringify(opts.body));
+  const price = opts.accepts
+    .map((a) => `${toCaip2(a.network)}:${a.asset.toLowerCase()}:${a.amount}`)
+    .sort()
+    .join('|');
+  return sha256(
+    [
+      opts.method.toUpperCase(),
+      opts.url,
+      opts.bodyType ?? 'json',
+      bodyHash,
+      headersHash(opts.headers),
+      (opts.wallet ?? '').toLowerCase(),
+      price,
+      opts.network ? toCaip2(opts.network) : '',
+      opts.strategy ?? '',
+    ].join('\n')
+  );
+}
+
+export async function getCachedResponse(key: string): Promise<CachedResponse | undefined> {
+  const file = join(cacheDir(), `${key}.json`);
+  let entry: CachedResponse;
+  try {
+    entry = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+
+  // A deleted download cannot be served again
+  const fileGone = entry.file ? !(await fs.stat(entry.file.path).catch(() => undefined)) : false;
+  if (fileGone || new Date(entry.expiresAt).getTime() <= Date.now()) {
+    await fs.rm(file, { force: true });
+    return undefined;
+  }
+  return entry;
+}
+
+export async function setCachedResponse(
+  entry: Omit<CachedResponse, 'storedAt' | 'expiresAt'>,
+  ttlSeconds: number
+): Promise<void> {
+  const now = Date.now();
+  const stored: CachedResponse = {
+    ...entry,
+    storedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlSeconds * 1000).toISOString(),
+  };
+  await fs.mkdir(cacheDir(), { recursive: true, mode: 0o700 });
+  await fs.writeFile(join(cacheDir(), `${entry.key}.json`), JSON.stringify(stored), { mode: 0o600 });
+  log.debug(`Cached paid response ${entry.key} for ${ttlSeconds}s`);
+}
@@ -0,0 +1,319 @@
+/**
+ * Config - user settings from ~/.x402scan-mcp/config.json, overridden by
+ * .x402scan-mcp.json in the directory the server is started from
+ *
+ * Each file is validated on its own, then the project file is merged over the global one:
+ * objects merge key by key, arrays and scalars are replaced. Security settings are the
+ * exception: a project file can tighten them but never loosen them (see applyProjectConfig).
+ * Read once on first use. Restart the server to pick up changes.
+ */
+
+import { readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { homedir } from 'os';
+import { z } from 'zod';
+import { parseAmountLimit } from './money';
+
+// X402_CONFIG_DIR moves config.json (and the default data directory) elsewhere, e.g. for tests
+const CONFIG_DIR = process.env.X402_CONFIG_DIR
+  ? resolve(process.env.X402_CONFIG_DIR)
+  : join(homedir(), '.x402scan-mcp');
+const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
+const PROJECT_CONFIG_FILE = '.x402scan-mcp.json';
+
+export const DEFAULT_DOH_URL = 'https://cloudflare-dns.com/dns-query';
+
+// USD ("$5") or raw token units ("raw:5000000"), same format as execute_call's maxAmount
+const AmountSchema = z.string().refine(
+  (value) => {
+    try {
+      parseAmountLimit(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Expected USD ("$5.00") or raw token units ("raw:5000000")' }
+);
+
+const BudgetsSchema = z
+  .object({
+    daily: AmountSchema.optional(),
+    weekly: AmountSchema.optional(),
+    monthly: AmountSchema.optional(),
+  })
+  .strict();
+
+const ApprovalSchema = z
+  .object({
+    // Payments above this ask the human via MCP elicitation before signing
+    threshold: AmountSchema.optional(),
+  })
+  .strict();
+
+// Host globs ("*.example.com") or origin globs ("https://api.example.com")
+const PolicySchema = z
+  .object({
+    allowedOrigins: z.array(z.string()).optional(),
+    blockedOrigins: z.array(z.string()).optional(),
+    allowedPayTo: z.array(z.string()).optional(),
+    allowedNetworks: z.array(z.string()).optional(),
+    allowedAssets: z.array(z.string()).optional(),
+  })
+  .strict();
+
+// One URL or several tried in order, keyed by CAIP-2 ("eip155:8453") or v1 name ("base")
+const RpcSchema = z.record(z.string(), z.union([z.string().url(), z.array(z.string().url()).min(1)]));
+
+// Extra EVM chain, keyed by CAIP-2. Paid over x402 v2 only: v1 clients resolve chain ids from a fixed list
+const NetworkSchema = z
+  .object({
+    name: z.string().min(1),
+    // Optional v1-style alias ("avalanche"), also accepted wherever a network is given
+    v1Name: z
+      .string()
+      .regex(/^[a-z0-9-]+$/, 'Expected lowercase letters, digits and "-"')
+      .optional(),
+    rpcUrls: z.array(z.string().url()).min(1),
+    nativeCurrency: z
+      .object({ name: z.string().min(1), symbol: z.string().min(1), decimals: z.number().int().min(0) })
+      .strict()
+      .optional(),
+    explorerUrl: z.string().url().optional(),
+    testnet: z.boolean().optional(),
+  })
+  .strict();
+
+// EIP-3009 token. name and version are its EIP-712 domain, used when a 402 response omits them.
+// A token with symbol "USDC" is the network's USDC for balances and withdrawals
+const TokenSchema = z
+  .object({
+    network: z.string().min(1),
+    address: z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected a 0x-prefixed EVM address'),
+    symbol: z.string().min(1),
+    decimals: z.number().int().min(0).max(36),
+    name: z.string().min(1),
+    version: z.string().min(1),
+  })
+  .strict();
+
+const ConfigSchema = z
+  .object({
+    // Network used when a tool is not given one (CAIP-2 or v1 name)
+    defaultNetwork: z.string().min(1).optional(),
+    // Wallets, ledger, cache and log. A leading ~ is the home directory. Config files are not moved
+    dataDir: z.string().min(1).optional(),
+    // Verbose logging, same as X402_DEBUG=true
+    debug: z.boolean().optional(),
+    budgets: BudgetsSchema.optional(),
+    approval: ApprovalSchema.optional(),
+    policy: PolicySchema.optional(),
+    // Check every execute_call settlement on-chain (can be overridden per call)
+    verifySettlement: z.boolean().optional(),
+    keystore: z
+      .object({
+        // Encrypt wallet.json, prompting for a passphrase if X402_KEYSTORE_PASSPHRASE is unset
+        encrypt: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    rpc: RpcSchema.optional(),
+    networks: z
+      .record(z.string().regex(/^eip155:\d+$/, 'Expected an EVM CAIP-2 id such as "eip155:43114"'), NetworkSchema)
+      .optional(),
+    tokens: z.array(TokenSchema).optional(),
+    discovery: z
+      .object({
+        // DNS-over-HTTPS JSON endpoint for _x402 TXT lookups
+        dohUrl: z.string().url().optional(),
+      })
+      .strict()
+      .optional(),
+    cache: z
+      .object({
+        // How long a paid response is reused for identical calls. 0 disables the cache
+        ttlSeconds: z.number().int().min(0).optional(),
+      })
+      .strict()
+      .optional(),
+    uploads: z
+      .object({
+        // Local files may only be uploaded from inside this directory. Unset disables uploads
+        dir: z.string().min(1).optional(),
+      })
+      .strict()
+      .optional(),
+    timeouts: z
+      .object({
+        // Unpaid first request, until response headers arrive
+        initialRequestSeconds: z.number().positive().optional(),
+        // Paid retry, until response headers arrive
+        paidRequestSeconds: z.number().positive().optional(),
+        // Reading a successful response body, paid or free, including streams
+        responseBodySeconds: z.number().positive().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type Config = z.infer<typeof ConfigSchema>;
+export type BudgetsConfig = z.infer<typeof BudgetsSchema>;
+export type PolicyConfig = z.infer<typeof PolicySchema>;
+export type NetworkEntry = z.infer<typeof NetworkSchema>;
+export type TokenEntry = z.infer<typeof TokenSchema>;
+export type TimeoutsConfig = NonNullable<Config['timeouts']>;
+
+/**
+ * Keys only the global file may set. They decide where the wallet lives, which chains,
+ * tokens and RPCs it trusts, and which local files it may upload
+ */
+const GLOBAL_ONLY_KEYS = ['dataDir', 'keystore', 'rpc', 'networks', 'tokens', 'uploads'] as const;
+const BUDGET_WINDOWS = ['daily', 'weekly', 'monthly'] as const;
+
+export interface LoadedConfig {
+  config: Config;
+  /** Files that were found and merged, in order */
+  sources: string[];
+  /** Payment policies in force: the global one, then the project one. A target must pass every one */
+  policies: PolicyConfig[];
+  /** Project keys that were ignored because only the global file may set them */
+  ignored: string[];
+}
+
+let cached: LoadedConfig | null = null;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Project over global: objects merge key by key, arrays and scalars are replaced */
+export function mergeConfig(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? mergeConfig(current, value) : value;
+  }
+  return merged;
+}
+
+/** The smaller of two amount limits. Unset means no limit */
+function lowerLimit(a: string | undefined, b: string | undefined): string | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return parseAmountLimit(b) < parseAmountLimit(a) ? b : a;
+}
+
+/**
+ * Apply a project file over the global config. Plain settings merge as in mergeConfig;
+ * security settings can only be tightened: global-only keys are ignored, budgets and the
+ * approval threshold take the lower limit, and the project policy is kept as a second policy
+ * that applies on top of the global one.
+ */
+export function applyProjectConfig(
+  global: Config,
+  project: Config
+): { config: Config; policy?: PolicyConfig; ignored: string[] } {
+  const ignored: string[] = GLOBAL_ONLY_KEYS.filter((key) => project[key] !== undefined);
+  const { policy, budgets, approval, verifySettlement, ...rest } = project;
+  const plain = Object.fromEntries(Object.entries(rest).filter(([key]) => !ignored.includes(key)));
+  const config = mergeConfig(global, plain) as Config;
+
+  if (budgets) {
+    const limits = BUDGET_WINDOWS.map((window) => [window, lowerLimit(global.budgets?.[window], budgets[window])]);
+    config.budgets = Object.fromEntries(limits.filter(([, limit]) => limit !== undefined));
+  }
+  if (approval?.threshold) {
+    config.approval = { ...global.approval, threshold: lowerLimit(global.approval?.threshold, approval.threshold) };
+  }
+  // Turning verification on is tightening; a project file cannot turn it off
+  if (verifySettlement) config.verifySettlement = true;
+
+  return { config, policy, ignored };
+}
+
+/** Parse and validate one file. Returns null if it does not exist */
+function readConfigFile(file: string): Config | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new Error(`Failed to read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const parsed = ConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`);
+    throw new Error(`Invalid config ${file}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+/** Global file first, then the project override */
+export function configFiles(): string[] {
+  const project = resolve(process.cwd(), PROJECT_CONFIG_FILE);
+  return project === CONFIG_FILE ? [CONFIG_FILE] : [CONFIG_FILE, project];
+}
+
+/**
+ * Load, validate and merge a global file and an optional project file. Missing files mean
+ * defaults; an unreadable or invalid file throws so limits are never silently dropped.
+ */
+export function loadConfig(globalFile: string, projectFile?: string): LoadedConfig {
+  const global = readConfigFile(globalFile);
+  const project = projectFile ? readConfigFile(projectFile) : null;
+  const sources = [...(global ? [globalFile] : []), ...(project && projectFile ? [projectFile] : [])];
+  const policies = global?.policy ? [global.policy] : [];
+
+  if (!project) return { config: global ?? {}, sources, policies, ignored: [] };
+
+  const { config, policy, ignored } = applyProjectConfig(global ?? {}, project);
+  return { config, sources, policies: policy ? [...policies, policy] : policies, ignored };
+}
+
+function getLoaded(): LoadedConfig {
+  if (!cached) {
+    const [globalFile, projectFile] = configFiles();
+    cached = loadConfig(globalFile, projectFile);
+  }
+  return cached;
+}
+
+/** Merged config, read once on first use */
+export function getConfig(): Config {
+  return getLoaded().config;
+}
+
+/** Config files that were found and merged, in order */
+export function loadedConfigFiles(): string[] {
+  return getLoaded().sources;
+}
+
+/** Payment policies every target must pass: the global one, then the project one */
+export function getPolicies(): PolicyConfig[] {
+  return getLoaded().policies;
+}
+
+/** Project config keys that were ignored because only the global file may set them */
+export function ignoredProjectKeys(): string[] {
+  return getLoaded().ignored;
+}
+
+/** Absolute path with a leading ~ expanded to the home directory */
+export function expandPath(path: string): string {
+  return resolve(path.replace(/^~(?=$|[\\/])/, homedir()));
+}
+
+/** Where wallets, the ledger, the cache and the log live */
+export function dataDir(): string {
+  const configured = getConfig().dataDir;
+  return configured ? expandPath(configured) : CONFIG_DIR;
+}
+
+export function isDebug(): boolean {
+  return process.env.X402_DEBUG === 'true' || getConfig().debug === true;
+}
+
+export const configPath = CONFIG_FILE;
+export const configDir = CONFIG_DIR;
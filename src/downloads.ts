@@ -0,0 +1,207 @@
+/**
+ * Response bodies - JSON and text are decoded, streams are assembled, everything else is saved to disk
+ *
+ * Binary payloads (images, audio, video, PDFs...) are written under downloads/ in the
+ * data directory (~/.x402scan-mcp by default) instead of being mangled into a string.
+ */
+
+import { randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import { extname, join } from 'path';
+import { dataDir } from './config';
+import { log } from './log';
+import { readStream, streamFormat, type StreamChunkHandler } from './streaming';
+
+export const downloadsDir = () => join(dataDir(), 'downloads');
+
+/** Larger bodies are refused rather than held in memory */
+export const MAX_RESPONSE_BYTES = 50 * 1024 * 1024;
+/** Names from Content-Disposition are cut to this many characters, keeping the extension */
+const MAX_FILENAME_LENGTH = 100;
+
+export interface SavedFile {
+  path: string;
+  /** Bytes */
+  size: number;
+  mimeType: string;
+}
+
+export interface ResponseBody {
+  /** Parsed JSON or text, or the assembled stream. Unset when the body was saved as a file */
+  data?: unknown;
+  file?: SavedFile;
+  /** The stream broke off before its end */
+  incomplete?: boolean;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'audio/mpeg': '.mp3',
+  'audio/wav': '.wav',
+  'audio/ogg': '.ogg',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+  'application/octet-stream': '.bin',
+};
+
+/** MIME type for a file by its extension, for uploads */
+export function mimeTypeFor(path: string): string {
+  const ext = extname(path).toLowerCase();
+  if (ext === '.jpeg') return 'image/jpeg';
+  if (ext === '.txt') return 'text/plain';
+  if (ext === '.json') return 'application/json';
+  const known = Object.entries(EXTENSIONS).find(([, e]) => e === ext);
+  return known ? known[0] : 'application/octet-stream';
+}
+
+/** Media type without parameters, lowercased ("text/html; charset=utf-8" -> "text/html") */
+export function mediaType(contentType: string | null): string {
+  return (contentType ?? '').split(';')[0].trim().toLowerCase();
+}
+
+/** Whether a content type is decoded as text. Unknown (empty) types are decided by sniffing */
+export function isTextual(type: string): boolean {
+  if (type.startsWith('image/') || type.startsWith('audio/') || type.startsWith('video/')) return false;
+  return (
+    type.startsWith('text/') ||
+    type === 'application/json' ||
+    type.endsWith('+json') ||
+    type === 'application/xml' ||
+    type.endsWith('+xml') ||
+    type === 'application/javascript' ||
+    type === 'application/x-ndjson' ||
+    type === 'application/x-www-form-urlencoded'
+  );
+}
+
+function decodeUtf8(bytes: Uint8Array): string | undefined {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return undefined;
+  }
+}
+
+/** filename from Content-Disposition, reduced to a safe basename */
+function dispositionName(header: string | null): string | undefined {
+  const match = header?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  if (!match) return undefined;
+  let raw = match[1];
+  try {
+    raw = decodeURIComponent(raw);
+  } catch {}
+  let name = raw.split(/[\\/]/).pop()!.replace(/[^\w.-]/g, '_');
+  if (name.length > MAX_FILENAME_LENGTH) {
+    const ext = extname(name).length <= 16 ? extname(name) : '';
+    name = name.slice(0, MAX_FILENAME_LENGTH - ext.length) + ext;
+  }
+  return name && name !== '.' && name !== '..' ? name : undefined;
+}
+
+function fileExtension(type: string, url: string): string {
+  if (EXTENSIONS[type]) return EXTENSIONS[type];
+  const fromUrl = extname(new URL(url).pathname);
+  if (/^\.[a-z0-9]{1,8}$/i.test(fromUrl)) return fromUrl.toLowerCase();
+  const subtype = type.split('/')[1];
+  return subtype && /^[a-z0-9]{1,8}$/.test(subtype) ? `.${subtype}` : '.bin';
+}
+
+export async function saveDownload(
+  bytes: Uint8Array,
+  opts: { url: string; mimeType: string; filename?: string }
+): Promise<SavedFile> {
+  const prefix = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}`;
+  const name = opts.filename ? `${prefix}-${opts.filename}` : `${prefix}${fileExtension(opts.mimeType, opts.url)}`;
+  const path = join(downloadsDir(), name);
+
+  await fs.mkdir(downloadsDir(), { recursive: true, mode: 0o700 });
+  await fs.writeFile(path, bytes, { mode: 0o600 });
+  log.info(`Saved ${bytes.byteLength} byte ${opts.mimeType} response to ${path}`);
+  return { path, size: bytes.byteLength, mimeType: opts.mimeType };
+}
+
+/** Body bytes, read chunk by chunk so an oversized body is cut off instead of buffered whole */
+/** Read at most maxBytes of a body. When there is more, the rest is cancelled and `truncated` is set */
+async function readAtMost(response: Response, maxBytes: number): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  if (!response.body) return { bytes: new Uint8Array(), truncated: false };
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (size + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      await reader.cancel().catch(() => {});
+      return { bytes: new Uint8Array(Buffer.concat(chunks)), truncated: true };
+    }
+    size += value.byteLength;
+    chunks.push(value);
+  }
+  return { bytes: new Uint8Array(Buffer.concat(chunks)), truncated: false };
+}
+
+async function readBytes(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const tooLarge = () => new Error(`Response body is larger than the ${maxBytes} byte limit`);
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel().catch(() => {});
+    throw tooLarge();
+  }
+  const { bytes, truncated } = await readAtMost(response, maxBytes);
+  if (truncated) throw tooLarge();
+  return bytes;
+}
+
+/** Text of an error response, cut off at maxBytes so a huge error page is not held in memory */
+export async function readErrorText(response: Response, maxBytes: number = MAX_RESPONSE_BYTES): Promise<string> {
+  const { bytes, truncated } = await readAtMost(response, maxBytes);
+  const text = new TextDecoder().decode(bytes);
+  return truncated ? `${text}... (cut off at ${maxBytes} bytes)` : text;
+}
+
+/**
+ * Read a response by its Content-Type: JSON is parsed, text is returned as a string
+ * (parsed if it happens to be JSON), SSE and NDJSON streams are read chunk by chunk
+ * and binary bodies are saved to the downloads directory.
+ * Without a Content-Type, bodies that are valid UTF-8 count as text. Bodies over maxBytes are refused;
+ * streams stop at maxBytes and are returned as incomplete.
+ */
+export async function readResponseBody(
+  response: Response,
+  url: string,
+  opts: { onStreamChunk?: StreamChunkHandler; maxBytes?: number } = {}
+): Promise<ResponseBody> {
+  const type = mediaType(response.headers.get('content-type'));
+
+  const maxBytes = opts.maxBytes ?? MAX_RESPONSE_BYTES;
+  const format = streamFormat(type);
+  if (format) {
+    const streamed = await readStream(response, format, opts.onStreamChunk, maxBytes);
+    return { data: streamed, ...(streamed.error && { incomplete: true }) };
+  }
+
+  const bytes = await readBytes(response, maxBytes);
+
+  const text = isTextual(type) ? new TextDecoder().decode(bytes) : !type ? decodeUtf8(bytes) : undefined;
+  if (text !== undefined) {
+    try {
+      return { data: JSON.parse(text) };
+    } catch {
+      return { data: text };
+    }
+  }
+
+  const file = await saveDownload(bytes, {
+    url,
+    mimeType: type || 'application/octet-stream',
+    filename: dispositionName(response.headers.get('content-disposition')),
+  });
+  return { file };
+}
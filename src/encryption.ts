@@ -0,0 +1,79 @@
+/**
+ * Secret encryption for the keystore - scrypt KDF + AES-256-GCM
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, type ScryptOptions } from 'crypto';
+
+export interface ScryptParams {
+  n: number;
+  r: number;
+  p: number;
+  dklen: number;
+}
+
+export interface EncryptedSecret {
+  cipher: 'aes-256-gcm';
+  ciphertext: string;
+  iv: string;
+  authTag: string;
+  kdf: 'scrypt';
+  kdfparams: ScryptParams & { salt: string };
+}
+
+// Same cost as Ethereum V3 keystores (geth "standard" scrypt)
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { n: 262144, r: 8, p: 1, dklen: 32 };
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Promise<Buffer> {
+  const options: ScryptOptions = {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    // scrypt needs 128 * N * r bytes; node's default cap is 32MB
+    maxmem: 256 * params.n * params.r,
+  };
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase.normalize('NFKC'), salt, params.dklen, options, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export async function encryptSecret(
+  secret: string,
+  passphrase: string,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): Promise<EncryptedSecret> {
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+  const key = await deriveKey(passphrase, salt, params);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf-8'), cipher.final()]);
+
+  return {
+    cipher: 'aes-256-gcm',
+    ciphertext: ciphertext.toString('hex'),
+    iv: iv.toString('hex'),
+    authTag: cipher.getAuthTag().toString('hex'),
+    kdf: 'scrypt',
+    kdfparams: { ...params, salt: salt.toString('hex') },
+  };
+}
+
+/** Decrypt a secret. Throws on a wrong passphrase or tampered data */
+export async function decryptSecret(encrypted: EncryptedSecret, passphrase: string): Promise<string> {
+  if (encrypted.cipher !== 'aes-256-gcm' || encrypted.kdf !== 'scrypt') {
+    throw new Error(`Unsupported keystore encryption: ${encrypted.kdf}/${encrypted.cipher}`);
+  }
+
+  const { salt, ...params } = encrypted.kdfparams;
+  const key = await deriveKey(passphrase, Buffer.from(salt, 'hex'), params);
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(encrypted.authTag, 'hex'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted.ciphertext, 'hex')), decipher.final()]).toString(
+      'utf-8'
+    );
+  } catch {
+    throw new Error('Failed to decrypt keystore: wrong passphrase or corrupted file');
+  }
+}
@@ -1,106 +1,555 @@
 /**
  * Keystore - private key management
  *
- * Stores wallet at ~/.x402scan-mcp/wallet.json
- * Can be overridden via X402_PRIVATE_KEY env var
+ * Stores named wallets in the data directory (~/.x402scan-mcp by default):
+ * "default" at wallet.json, others at wallets/<name>.json. The active wallet
+ * name lives in active-wallet.
+ *
+ * New wallets hold a BIP-39 mnemonic and use account m/44'/60'/0'/0/i; imported
+ * raw private keys are kept as-is. Each wallet also has a Solana ed25519 keypair,
+ * derived from the same secret (see solana.ts).
+ *
+ * Wallets are encrypted (scrypt + AES-256-GCM) when a passphrase is set via
+ * X402_KEYSTORE_PASSPHRASE or keystore.encrypt in config.
+ * X402_PRIVATE_KEY overrides the active wallet as the "env" wallet, optionally
+ * with X402_SOLANA_PRIVATE_KEY as its Solana key.
  */
 
-import { randomBytes } from 'crypto';
 import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
 import * as fs from 'fs/promises';
 import { join } from 'path';
-import { homedir } from 'os';
 import { log } from './log';
+import { dataDir, getConfig } from './config';
+import { isSolanaNetwork } from './networks';
+import { encryptSecret, decryptSecret, type EncryptedSecret } from './encryption';
+import { promptSecret } from './prompt';
+import {
+  derivationPath,
+  derivePrivateKey,
+  deriveSolanaSeed,
+  generateMnemonic,
+  mnemonicFingerprint,
+  normalizeMnemonic,
+  pathIndex,
+  solanaDerivationPath,
+  validateMnemonic,
+} from './mnemonic';
+import {
+  encodeSolanaSecretKey,
+  solanaKeypairFromSecretKey,
+  solanaKeypairFromSeed,
+  solanaSeedFromEvmKey,
+  type SolanaKeypair,
+} from './solana';
 import { createRequire } from 'module';
 
 const require = createRequire(import.meta.url);
 const { version } = require('../package.json');
 
-const KEYSTORE_DIR = join(homedir(), '.x402scan-mcp');
-const KEYSTORE_FILE = join(KEYSTORE_DIR, 'wallet.json');
+// Functions rather than constants: dataDir comes from config, which is read on first use
+const keystoreFile = () => join(dataDir(), 'wallet.json');
+const walletsDir = () => join(dataDir(), 'wallets');
+const activeWalletFile = () => join(dataDir(), 'active-wallet');
 
-interface StoredWallet {
-  privateKey: `0x${string}`;
+export const DEFAULT_WALLET = 'default';
+export const ENV_WALLET = 'env';
+
+const WALLET_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+interface WalletMetadata {
   address: `0x${string}`;
   createdAt: string;
+  /** Set for mnemonic wallets */
+  derivationPath?: string;
+  /** Master key fingerprint of the mnemonic, shared by accounts derived from it */
+  fingerprint?: string;
+  solanaAddress?: string;
+}
+
+interface PlaintextWallet extends WalletMetadata {
+  privateKey?: `0x${string}`;
+  mnemonic?: string;
+}
+
+interface EncryptedWallet extends WalletMetadata {
+  /** Encrypts the mnemonic when derivationPath is set, otherwise the private key */
+  crypto: EncryptedSecret;
 }
 
-export interface Wallet {
+type StoredWallet = PlaintextWallet | EncryptedWallet;
+
+type WalletSecret = { privateKey: `0x${string}` } | { mnemonic: string; derivationPath: string };
+
+interface WalletKeys {
   account: PrivateKeyAccount;
+  solana: SolanaKeypair;
+}
+
+export interface Wallet extends WalletKeys {
+  name: string;
   address: `0x${string}`;
+  file?: string;
   isNew: boolean;
 }
 
-export async function getWallet(): Promise<Wallet> {
-  // Environment override
-  if (process.env.X402_PRIVATE_KEY) {
-    const account = privateKeyToAccount(process.env.X402_PRIVATE_KEY as `0x${string}`);
-    log.info(`Using wallet from env: ${account.address}`);
-    return { account, address: account.address, isNew: false };
+export interface WalletInfo {
+  name: string;
+  address: `0x${string}`;
+  solanaAddress?: string;
+  type: 'mnemonic' | 'privateKey';
+  derivationPath?: string;
+  createdAt?: string;
+  encrypted: boolean;
+  active: boolean;
+  file?: string;
+}
+
+export interface WalletBackup {
+  name: string;
+  address: `0x${string}`;
+  privateKey: `0x${string}`;
+  mnemonic?: string;
+  derivationPath?: string;
+  solanaAddress: string;
+  solanaDerivationPath?: string;
+  /** Base58 64-byte secret key, importable into Phantom/Solflare */
+  solanaSecretKey: string;
+}
+
+// Decrypting is slow by design, so unlocked accounts are kept for the session
+const unlockedKeys = new Map<string, WalletKeys>();
+let sessionPassphrase: string | null = null;
+
+function walletFile(name: string): string {
+  return name === DEFAULT_WALLET ? keystoreFile() : join(walletsDir(), `${name}.json`);
+}
+
+function assertValidName(name: string): void {
+  if (name === ENV_WALLET || !WALLET_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid wallet name "${name}". Use 1-32 lowercase letters, digits, "-" or "_" ("${ENV_WALLET}" is reserved).`
+    );
   }
+}
 
-  // Try loading existing
+/** X402_PRIVATE_KEY wallet. X402_SOLANA_PRIVATE_KEY replaces its derived Solana key */
+function envKeys(): WalletKeys | undefined {
+  const key = process.env.X402_PRIVATE_KEY as `0x${string}` | undefined;
+  if (!key) return undefined;
+  const solanaKey = process.env.X402_SOLANA_PRIVATE_KEY;
+  return {
+    account: privateKeyToAccount(key),
+    solana: solanaKey ? solanaKeypairFromSecretKey(solanaKey) : solanaKeypairFromSeed(solanaSeedFromEvmKey(key)),
+  };
+}
+
+function shouldEncrypt(): boolean {
+  return !!process.env.X402_KEYSTORE_PASSPHRASE || getConfig().keystore?.encrypt === true;
+}
+
+function secretPrivateKey(secret: WalletSecret): `0x${string}` {
+  return 'privateKey' in secret ? secret.privateKey : derivePrivateKey(secret.mnemonic, secret.derivationPath);
+}
+
+/** Solana path for the same account index as a mnemonic wallet's EVM path */
+function secretSolanaPath(secret: WalletSecret): string | undefined {
+  return 'mnemonic' in secret ? solanaDerivationPath(pathIndex(secret.derivationPath) ?? 0) : undefined;
+}
+
+function secretKeys(secret: WalletSecret): WalletKeys {
+  const account = privateKeyToAccount(secretPrivateKey(secret));
+  const solanaPath = secretSolanaPath(secret);
+  const solanaSeed =
+    'mnemonic' in secret ? deriveSolanaSeed(secret.mnemonic, solanaPath!) : solanaSeedFromEvmKey(secret.privateKey);
+  return { account, solana: solanaKeypairFromSeed(solanaSeed) };
+}
+
+/** Passphrase from env, an earlier prompt, or the terminal */
+async function getPassphrase(purpose: 'unlock' | 'create'): Promise<string | undefined> {
+  if (process.env.X402_KEYSTORE_PASSPHRASE) return process.env.X402_KEYSTORE_PASSPHRASE;
+  if (sessionPassphrase) return sessionPassphrase;
+
+  const passphrase = await promptSecret(
+    purpose === 'unlock' ? 'x402scan wallet passphrase: ' : 'New x402scan wallet passphrase: '
+  );
+  if (!passphrase) return undefined;
+  if (purpose === 'create' && (await promptSecret('Confirm passphrase: ')) !== passphrase) {
+    throw new Error('Passphrases do not match');
+  }
+
+  sessionPassphrase = passphrase;
+  return passphrase;
+}
+
+async function readStoredWallet(name: string): Promise<StoredWallet | undefined> {
   try {
-    const data = await fs.readFile(KEYSTORE_FILE, 'utf-8');
-    const stored: StoredWallet = JSON.parse(data);
-    const account = privateKeyToAccount(stored.privateKey);
-    log.info(`Loaded wallet: ${account.address}`);
-    return { account, address: account.address, isNew: false };
+    return JSON.parse(await fs.readFile(walletFile(name), 'utf-8'));
   } catch {
-    // File doesn't exist or is invalid, generate new wallet
+    return undefined;
   }
+}
 
-  // Generate new
-  const privateKey = `0x${randomBytes(32).toString('hex')}` as `0x${string}`;
-  const account = privateKeyToAccount(privateKey);
-  const stored: StoredWallet = {
-    privateKey,
-    address: account.address,
-    createdAt: new Date().toISOString(),
-  };
+async function readAllStoredWallets(): Promise<Array<{ name: string; stored: StoredWallet }>> {
+  let names: string[] = [];
+  try {
+    names = (await fs.readdir(walletsDir()))
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => f.slice(0, -'.json'.length))
+      .filter((n) => WALLET_NAME_PATTERN.test(n) && n !== DEFAULT_WALLET);
+  } catch {}
+
+  const wallets: Array<{ name: string; stored: StoredWallet }> = [];
+  for (const name of [DEFAULT_WALLET, ...names.sort()]) {
+    const stored = await readStoredWallet(name);
+    if (stored) wallets.push({ name, stored });
+  }
+  return wallets;
+}
 
-  await fs.mkdir(KEYSTORE_DIR, { recursive: true });
-  await fs.writeFile(KEYSTORE_FILE, JSON.stringify(stored, null, 2));
+async function saveWallet(name: string, secret: WalletSecret, address: `0x${string}`, createdAt: string): Promise<void> {
+  const solanaAddress = secretKeys(secret).solana.publicKey;
+  const metadata: WalletMetadata =
+    'mnemonic' in secret
+      ? {
+          address,
+          createdAt,
+          derivationPath: secret.derivationPath,
+          fingerprint: mnemonicFingerprint(secret.mnemonic),
+          solanaAddress,
+        }
+      : { address, createdAt, solanaAddress };
+  let stored: StoredWallet = { ...metadata, ...secret };
+
+  if (shouldEncrypt()) {
+    const passphrase = await getPassphrase('create');
+    if (!passphrase) {
+      throw new Error(
+        'Keystore encryption is enabled but no passphrase is available. Set X402_KEYSTORE_PASSPHRASE or start the server from a terminal.'
+      );
+    }
+    const plaintext = 'mnemonic' in secret ? secret.mnemonic : secret.privateKey;
+    stored = { ...metadata, crypto: await encryptSecret(plaintext, passphrase) };
+  }
+
+  // Write then rename so an interrupted migration never leaves a half-written keystore
+  const file = walletFile(name);
+  const tmpFile = `${file}.tmp`;
+  await fs.mkdir(name === DEFAULT_WALLET ? dataDir() : walletsDir(), { recursive: true });
+  await fs.writeFile(tmpFile, JSON.stringify(stored, null, 2), { mode: 0o600 });
+  await fs.rename(tmpFile, file);
   try {
-    await fs.chmod(KEYSTORE_FILE, 0o600);
+    await fs.chmod(file, 0o600);
   } catch {}
+}
 
-  log.info(`Created wallet: ${account.address}`);
-  log.info(`Saved to: ${KEYSTORE_FILE}`);
-  return { account, address: account.address, isNew: true };
+async function decrypt(name: string, stored: EncryptedWallet): Promise<string> {
+  const passphrase = await getPassphrase('unlock');
+  if (!passphrase) {
+    throw new Error(
+      `Wallet ${walletFile(name)} is encrypted. Set X402_KEYSTORE_PASSPHRASE or start the server from a terminal to enter the passphrase.`
+    );
+  }
+
+  try {
+    return await decryptSecret(stored.crypto, passphrase);
+  } catch (err) {
+    sessionPassphrase = null;
+    throw err;
+  }
 }
 
-/** Check if wallet exists without creating one */
-export async function walletExists(): Promise<boolean> {
-  if (process.env.X402_PRIVATE_KEY) return true;
+async function readSecret(name: string, stored: StoredWallet): Promise<WalletSecret> {
+  if ('crypto' in stored) {
+    const plaintext = await decrypt(name, stored);
+    return stored.derivationPath
+      ? { mnemonic: plaintext, derivationPath: stored.derivationPath }
+      : { privateKey: plaintext as `0x${string}` };
+  }
+  if (stored.mnemonic && stored.derivationPath) {
+    return { mnemonic: stored.mnemonic, derivationPath: stored.derivationPath };
+  }
+  if (stored.privateKey) return { privateKey: stored.privateKey };
+  throw new Error(`Wallet ${walletFile(name)} has no key`);
+}
+
+/** Load a stored wallet, migrating plaintext to encrypted when encryption is on */
+async function loadWallet(name: string, stored: StoredWallet): Promise<WalletKeys> {
+  const cached = unlockedKeys.get(name);
+  if (cached) return cached;
+
+  const secret = await readSecret(name, stored);
+  const keys = secretKeys(secret);
+  log.info(`${'crypto' in stored ? 'Unlocked' : 'Loaded'} wallet "${name}": ${keys.account.address}`);
+
+  if (!('crypto' in stored) && shouldEncrypt()) {
+    await saveWallet(name, secret, keys.account.address, stored.createdAt);
+    log.info(`Encrypted plaintext wallet: ${walletFile(name)}`);
+  }
+
+  unlockedKeys.set(name, keys);
+  return keys;
+}
+
+async function storeNewWallet(name: string, secret: WalletSecret): Promise<Wallet> {
+  const keys = secretKeys(secret);
+  const { account } = keys;
+
+  const duplicate = (await readAllStoredWallets()).find(
+    (w) => w.stored.address.toLowerCase() === account.address.toLowerCase()
+  );
+  if (duplicate) {
+    throw new Error(`Wallet "${duplicate.name}" already holds ${account.address}`);
+  }
+
+  await saveWallet(name, secret, account.address, new Date().toISOString());
+  unlockedKeys.set(name, keys);
+
+  log.info(`Created wallet "${name}": ${account.address}`);
+  log.info(`Saved to: ${walletFile(name)}${shouldEncrypt() ? ' (encrypted)' : ''}`);
+  return { name, ...keys, address: account.address, file: walletFile(name), isNew: true };
+}
+
+/** New wallets get a fresh mnemonic so they can be backed up as a phrase */
+function generateWallet(name: string): Promise<Wallet> {
+  return storeNewWallet(name, { mnemonic: generateMnemonic(), derivationPath: derivationPath(0) });
+}
+
+/** Name of the active stored wallet (ignores the X402_PRIVATE_KEY override) */
+export async function getActiveWalletName(): Promise<string> {
+  try {
+    const name = (await fs.readFile(activeWalletFile(), 'utf-8')).trim();
+    if (WALLET_NAME_PATTERN.test(name)) return name;
+  } catch {}
+  return DEFAULT_WALLET;
+}
+
+/**
+ * Get a wallet by name, or the active one.
+ * The default wallet is created on first use; other names must exist.
+ */
+export async function getWallet(name?: string): Promise<Wallet> {
+  // Environment override applies unless a stored wallet is named explicitly
+  const fromEnv = envKeys();
+  if (fromEnv && (name === undefined || name === ENV_WALLET)) {
+    log.info(`Using wallet from env: ${fromEnv.account.address}`);
+    return { name: ENV_WALLET, ...fromEnv, address: fromEnv.account.address, isNew: false };
+  }
+  if (name === ENV_WALLET) throw new Error('X402_PRIVATE_KEY is not set');
+
+  const walletName = name ?? (await getActiveWalletName());
+  assertValidName(walletName);
+
+  const stored = await readStoredWallet(walletName);
+  if (stored) {
+    const keys = await loadWallet(walletName, stored);
+    return { name: walletName, ...keys, address: keys.account.address, file: walletFile(walletName), isNew: false };
+  }
+
+  if (walletName !== DEFAULT_WALLET) {
+    throw new Error(`Wallet "${walletName}" not found. Use list_wallets to see wallets or create_wallet to add one.`);
+  }
+  return generateWallet(walletName);
+}
+
+async function assertNewName(name: string): Promise<void> {
+  assertValidName(name);
+  if (await readStoredWallet(name)) {
+    throw new Error(`Wallet "${name}" already exists`);
+  }
+}
+
+/** Lowest account index not yet used by a wallet derived from the same mnemonic */
+async function nextAccountIndex(fingerprint: string): Promise<number> {
+  const used = new Set(
+    (await readAllStoredWallets())
+      .filter((w) => w.stored.fingerprint === fingerprint && w.stored.derivationPath)
+      .map((w) => pathIndex(w.stored.derivationPath!))
+  );
+  let index = 0;
+  while (used.has(index)) index++;
+  return index;
+}
+
+/**
+ * Create a new named wallet with a fresh mnemonic, or derive the next
+ * account (or a given index) from another mnemonic wallet
+ */
+export async function createWallet(name: string, opts: { from?: string; index?: number } = {}): Promise<Wallet> {
+  await assertNewName(name);
+  if (!opts.from) {
+    return storeNewWallet(name, { mnemonic: generateMnemonic(), derivationPath: derivationPath(opts.index ?? 0) });
+  }
+
+  assertValidName(opts.from);
+  const source = await readStoredWallet(opts.from);
+  if (!source) throw new Error(`Wallet "${opts.from}" not found`);
+  if (!source.derivationPath || !source.fingerprint) {
+    throw new Error(`Wallet "${opts.from}" is a raw private key wallet; only mnemonic wallets can derive accounts`);
+  }
+
+  const secret = await readSecret(opts.from, source);
+  if (!('mnemonic' in secret)) throw new Error(`Wallet "${opts.from}" has no mnemonic`);
+  const index = opts.index ?? (await nextAccountIndex(source.fingerprint));
+  return storeNewWallet(name, { mnemonic: secret.mnemonic, derivationPath: derivationPath(index) });
+}
+
+/** Import an existing BIP-39 mnemonic (at account index, default 0) or raw private key */
+export async function importWallet(
+  name: string,
+  opts: { mnemonic?: string; privateKey?: string; index?: number }
+): Promise<Wallet> {
+  await assertNewName(name);
+  if (!!opts.mnemonic === !!opts.privateKey) {
+    throw new Error('Provide either a mnemonic or a private key');
+  }
+
+  if (opts.mnemonic) {
+    const check = validateMnemonic(opts.mnemonic);
+    if (!check.valid) throw new Error(check.error);
+    return storeNewWallet(name, {
+      mnemonic: normalizeMnemonic(opts.mnemonic),
+      derivationPath: derivationPath(opts.index ?? 0),
+    });
+  }
+
+  const privateKey = (opts.privateKey!.startsWith('0x') ? opts.privateKey! : `0x${opts.privateKey}`) as `0x${string}`;
+  if (!/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+    throw new Error('Private key must be 32 bytes of hex');
+  }
+  return storeNewWallet(name, { privateKey: privateKey.toLowerCase() as `0x${string}` });
+}
+
+async function readExportable(name: string): Promise<StoredWallet> {
+  if (name === ENV_WALLET) {
+    throw new Error('The env wallet comes from X402_PRIVATE_KEY; back up that value instead');
+  }
+  assertValidName(name);
+  const stored = await readStoredWallet(name);
+  if (!stored) throw new Error(`Wallet "${name}" not found`);
+  return stored;
+}
+
+export interface ExportPreview {
+  name: string;
+  address: `0x${string}`;
+  type: WalletInfo['type'];
+  /** Other wallets derived from the same mnemonic. Exporting it exposes them too */
+  sharedWith: string[];
+}
+
+/** What exporting a wallet would reveal, read without decrypting anything */
+export async function previewExport(name: string): Promise<ExportPreview> {
+  const stored = await readExportable(name);
+  const sharedWith = stored.fingerprint
+    ? (await readAllStoredWallets())
+        .filter((w) => w.name !== name && w.stored.fingerprint === stored.fingerprint)
+        .map((w) => w.name)
+    : [];
+  return { name, address: stored.address, type: stored.derivationPath ? 'mnemonic' : 'privateKey', sharedWith };
+}
+
+/** Decrypt a stored wallet's mnemonic and private key for backup */
+export async function exportWallet(name: string): Promise<WalletBackup> {
+  const stored = await readExportable(name);
+  const secret = await readSecret(name, stored);
+  const { solana } = secretKeys(secret);
+  return {
+    name,
+    address: stored.address,
+    privateKey: secretPrivateKey(secret),
+    ...('mnemonic' in secret && { mnemonic: secret.mnemonic, derivationPath: secret.derivationPath }),
+    solanaAddress: solana.publicKey,
+    solanaDerivationPath: secretSolanaPath(secret),
+    solanaSecretKey: encodeSolanaSecretKey(solana),
+  };
+}
+
+/** Make a stored wallet the default for tools that don't name one */
+export async function setActiveWallet(name: string): Promise<Wallet> {
+  const wallet = await getWallet(name);
+  await fs.mkdir(dataDir(), { recursive: true });
+  await fs.writeFile(activeWalletFile(), `${wallet.name}\n`);
+  log.info(`Active wallet: "${wallet.name}" ${wallet.address}`);
+  return wallet;
+}
+
+/** List stored wallets (plus the env wallet when set) without unlocking them */
+export async function listWallets(): Promise<WalletInfo[]> {
+  const fromEnv = envKeys();
+  const activeName = await getActiveWalletName();
+  const wallets: WalletInfo[] = [];
+
+  if (fromEnv) {
+    wallets.push({
+      name: ENV_WALLET,
+      address: fromEnv.account.address,
+      solanaAddress: fromEnv.solana.publicKey,
+      type: 'privateKey',
+      encrypted: false,
+      active: true,
+    });
+  }
+
+  for (const { name, stored } of await readAllStoredWallets()) {
+    wallets.push({
+      name,
+      address: stored.address,
+      solanaAddress: stored.solanaAddress,
+      type: stored.derivationPath ? 'mnemonic' : 'privateKey',
+      derivationPath: stored.derivationPath,
+      createdAt: stored.createdAt,
+      encrypted: 'crypto' in stored,
+      active: !fromEnv && name === activeName,
+      file: walletFile(name),
+    });
+  }
+
+  return wallets;
+}
+
+/**
+ * Load an existing wallet at startup, so any passphrase prompt or
+ * plaintext migration happens before tools are called
+ */
+export async function unlockWallet(): Promise<void> {
+  if (await walletExists()) await getWallet();
+}
+
+/** Check if the active wallet (or a named one) exists without creating one */
+export async function walletExists(name?: string): Promise<boolean> {
+  if (process.env.X402_PRIVATE_KEY && (name === undefined || name === ENV_WALLET)) return true;
   try {
-    await fs.access(KEYSTORE_FILE);
+    await fs.access(walletFile(name ?? (await getActiveWalletName())));
     return true;
   } catch {
     return false;
   }
 }
 
-export const keystorePath = KEYSTORE_FILE;
-export const keystoreDir = KEYSTORE_DIR;
+/** Wallet address that pays on a network: the Solana key on solana:, the EVM account elsewhere */
+export function addressForNetwork(wallet: Pick<Wallet, 'address' | 'solana'>, network: string): string {
+  return isSolanaNetwork(network) ? wallet.solana.publicKey : wallet.address;
+}
+
+export const keystorePath = keystoreFile;
 
-// Cached wallet address for tracking headers (loaded lazily)
-let cachedWalletAddress: `0x${string}` | null = null;
+/** Address of the active wallet, read without unlocking or creating it */
+async function activeWalletAddress(): Promise<string | undefined> {
+  const fromEnv = envKeys();
+  if (fromEnv) return fromEnv.account.address;
+  return (await readStoredWallet(await getActiveWalletName()))?.address;
+}
 
 /**
  * Get tracking headers for x402 requests
- * Includes Referer and wallet address for provider support
+ * Includes Referer and wallet address for provider support.
+ * Defaults to the active wallet's address, left out when no wallet exists yet.
  */
-export async function getClientIdentifierHeaders(): Promise<Record<string, string>> {
-  // Lazily load wallet address if not cached
-  if (!cachedWalletAddress) {
-    const { address } = await getWallet();
-    cachedWalletAddress = address;
-  }
+export async function getClientIdentifierHeaders(address?: string): Promise<Record<string, string>> {
+  const walletAddress = address ?? (await activeWalletAddress());
 
   return {
     Referer: `x402scan-mcp/${version}`,
-    'X-Client-ID': cachedWalletAddress,
-    'X-Wallet-Address': cachedWalletAddress,
+    ...(walletAddress && { 'X-Client-ID': walletAddress, 'X-Wallet-Address': walletAddress }),
   };
 }
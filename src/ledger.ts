@@ -0,0 +1,209 @@
+/**
+ * Spending ledger - append-only record of payments made by execute_call
+ *
+ * Stored at ledger.jsonl in the data directory (~/.x402scan-mcp by default), one JSON entry per line
+ */
+
+import * as fs from 'fs/promises';
+import { join } from 'path';
+import { dataDir } from './config';
+import { log } from './log';
+import { assetAmount, toCaip2 } from './networks';
+import { formatMoney, toUsdcUnits } from './money';
+
+const ledgerFile = () => join(dataDir(), 'ledger.jsonl');
+
+export interface LedgerEntry {
+  timestamp: string;
+  url: string;
+  method: string;
+  /** Raw token units */
+  amount: string;
+  asset: string;
+  network: string;
+  payTo: string;
+  payer: string;
+  transactionHash?: string;
+  /** `unconfirmed` when the paid request succeeded but returned no settlement header */
+  status: 'settled' | 'unconfirmed';
+}
+
+export async function recordPayment(entry: LedgerEntry): Promise<void> {
+  await fs.mkdir(dataDir(), { recursive: true });
+  await fs.appendFile(ledgerFile(), `${JSON.stringify(entry)}\n`);
+  try {
+    await fs.chmod(ledgerFile(), 0o600);
+  } catch {}
+  log.debug('Recorded payment:', entry);
+}
+
+/** Read all entries, skipping malformed lines */
+export async function readLedger(): Promise<LedgerEntry[]> {
+  let data: string;
+  try {
+    data = await fs.readFile(ledgerFile(), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const entries: LedgerEntry[] = [];
+  for (const line of data.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as LedgerEntry);
+    } catch {
+      log.error(`Skipping malformed ledger line: ${line}`);
+    }
+  }
+  return entries;
+}
+
+/** USDC raw units paid by an entry, or undefined when it was paid in another asset */
+export function entryUsdcUnits(entry: LedgerEntry): bigint | undefined {
+  return toUsdcUnits(assetAmount(entry.network, entry.asset, entry.amount));
+}
+
+/** Total USDC raw units spent at or after `since`. Payments in other assets have no USD value and are left out */
+export function sumSpentSince(entries: LedgerEntry[], since: Date): bigint {
+  const cutoff = since.getTime();
+  return entries
+    .filter((e) => new Date(e.timestamp).getTime() >= cutoff)
+    .reduce((total, e) => total + (entryUsdcUnits(e) ?? 0n), 0n);
+}
+
+export interface LedgerFilter {
+  /** Inclusive lower bound */
+  from?: Date;
+  /** Inclusive upper bound */
+  to?: Date;
+  /** Full origin ("https://api.example.com") or bare hostname */
+  origin?: string;
+  network?: string;
+  status?: LedgerEntry['status'];
+}
+
+/** Origin of an entry's URL, or the URL itself if unparseable */
+export function entryOrigin(entry: LedgerEntry): string {
+  try {
+    return new URL(entry.url).origin;
+  } catch {
+    return entry.url;
+  }
+}
+
+function matchesOrigin(entry: LedgerEntry, origin: string): boolean {
+  try {
+    const url = new URL(entry.url);
+    return origin.includes('://') ? url.origin === new URL(origin).origin : url.hostname === origin.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+export function filterLedger(entries: LedgerEntry[], filter: LedgerFilter): LedgerEntry[] {
+  const network = filter.network ? toCaip2(filter.network) : undefined;
+  return entries.filter((e) => {
+    const time = new Date(e.timestamp).getTime();
+    if (filter.from && time < filter.from.getTime()) return false;
+    if (filter.to && time > filter.to.getTime()) return false;
+    if (filter.origin && !matchesOrigin(e, filter.origin)) return false;
+    if (network && toCaip2(e.network) !== network) return false;
+    if (filter.status && e.status !== filter.status) return false;
+    return true;
+  });
+}
+
+export interface AssetTotal {
+  /** CAIP-2 */
+  network: string;
+  asset: string;
+  count: number;
+  /** Raw units of the asset */
+  total: bigint;
+}
+
+export interface SpendingTotals {
+  count: number;
+  /** USDC raw units */
+  total: bigint;
+  /** Payments in other assets, totalled per network and asset instead of being added to total */
+  otherAssets: Record<string, AssetTotal>;
+}
+
+export interface SpendingSummary extends SpendingTotals {
+  byOrigin: Record<string, SpendingTotals>;
+  byNetwork: Record<string, SpendingTotals>;
+}
+
+function addTo(totals: SpendingTotals, entry: LedgerEntry, usdc: bigint | undefined): void {
+  totals.count += 1;
+  if (usdc !== undefined) {
+    totals.total += usdc;
+    return;
+  }
+  const network = toCaip2(entry.network);
+  const other = (totals.otherAssets[`${network}/${entry.asset.toLowerCase()}`] ??= {
+    network,
+    asset: entry.asset,
+    count: 0,
+    total: 0n,
+  });
+  other.count += 1;
+  other.total += BigInt(entry.amount);
+}
+
+const emptyTotals = (): SpendingTotals => ({ count: 0, total: 0n, otherAssets: {} });
+
+export function summarizeLedger(entries: LedgerEntry[]): SpendingSummary {
+  const summary: SpendingSummary = { ...emptyTotals(), byOrigin: {}, byNetwork: {} };
+  for (const e of entries) {
+    const usdc = entryUsdcUnits(e);
+    addTo(summary, e, usdc);
+    addTo((summary.byOrigin[entryOrigin(e)] ??= emptyTotals()), e, usdc);
+    addTo((summary.byNetwork[toCaip2(e.network)] ??= emptyTotals()), e, usdc);
+  }
+  return summary;
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'origin',
+  'url',
+  'method',
+  'network',
+  'asset',
+  'amount',
+  'amountRaw',
+  'payTo',
+  'payer',
+  'transactionHash',
+  'status',
+] as const;
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Render entries as CSV for export */
+export function ledgerToCsv(entries: LedgerEntry[]): string {
+  const rows = entries.map((e) => {
+    const row: Record<(typeof CSV_COLUMNS)[number], string> = {
+      timestamp: e.timestamp,
+      origin: entryOrigin(e),
+      url: e.url,
+      method: e.method,
+      network: toCaip2(e.network),
+      asset: e.asset,
+      amount: formatMoney(assetAmount(e.network, e.asset, e.amount)),
+      amountRaw: e.amount,
+      payTo: e.payTo,
+      payer: e.payer,
+      transactionHash: e.transactionHash ?? '',
+      status: e.status,
+    };
+    return CSV_COLUMNS.map((col) => csvField(row[col])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+export const ledgerPath = ledgerFile;
@@ -1,18 +1,33 @@
 /**
- * Logger - writes to ~/.x402scan-mcp/mcp.log and stderr
+ * Logger - writes to mcp.log in the data directory (~/.x402scan-mcp by default) and stderr
  */
 
 import { appendFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
-import { homedir } from 'os';
+import { configDir, dataDir, isDebug } from './config';
 
-const LOG_DIR = join(homedir(), '.x402scan-mcp');
-const LOG_FILE = join(LOG_DIR, 'mcp.log');
-const DEBUG = process.env.X402_DEBUG === 'true';
+const FALLBACK_LOG_DIR = configDir;
 
-try {
-  mkdirSync(LOG_DIR, { recursive: true });
-} catch {}
+let settings: { file: string; debug: boolean } | null = null;
+
+// Resolved on first write. An invalid config must still be loggable, so it falls back to defaults
+function getSettings(): { file: string; debug: boolean } {
+  if (settings) return settings;
+
+  let dir = FALLBACK_LOG_DIR;
+  let debug = process.env.X402_DEBUG === 'true';
+  try {
+    dir = dataDir();
+    debug = isDebug();
+  } catch {}
+
+  try {
+    mkdirSync(dir, { recursive: true });
+  } catch {}
+
+  settings = { file: join(dir, 'mcp.log'), debug };
+  return settings;
+}
 
 function format(args: unknown[]): string {
   return args
@@ -24,7 +39,7 @@ function write(level: string, msg: string, args: unknown[]): void {
   const formatted = args.length ? `${msg} ${format(args)}` : msg;
   const line = `[${new Date().toISOString()}] [${level}] ${formatted}\n`;
   try {
-    appendFileSync(LOG_FILE, line);
+    appendFileSync(getSettings().file, line);
   } catch {}
   console.error(`[x402scan] ${formatted}`);
 }
@@ -32,6 +47,8 @@ function write(level: string, msg: string, args: unknown[]): void {
 export const log = {
   info: (msg: string, ...args: unknown[]) => write('INFO', msg, args),
   error: (msg: string, ...args: unknown[]) => write('ERROR', msg, args),
-  debug: (msg: string, ...args: unknown[]) => DEBUG && write('DEBUG', msg, args),
-  path: LOG_FILE,
+  debug: (msg: string, ...args: unknown[]) => getSettings().debug && write('DEBUG', msg, args),
+  get path(): string {
+    return getSettings().file;
+  },
 };
@@ -0,0 +1,107 @@
+/**
+ * BIP-39 mnemonics and BIP-44 account derivation (m/44'/60'/0'/0/i)
+ *
+ * Mnemonics and secp256k1 keys come from @scure/bip39 and @scure/bip32, the libraries viem uses.
+ * Solana accounts use SLIP-0010 ed25519 derivation at m/44'/501'/i'/0', the path Phantom and
+ * Solflare use. @scure/bip32 only covers secp256k1, so that derivation is done here.
+ */
+
+import { createHmac } from 'crypto';
+import {
+  generateMnemonic as generateBip39Mnemonic,
+  mnemonicToSeedSync,
+  validateMnemonic as isValidBip39Mnemonic,
+} from '@scure/bip39';
+import { wordlist as english } from '@scure/bip39/wordlists/english';
+import { HDKey } from '@scure/bip32';
+import { toHex } from 'viem';
+
+const VALID_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+export function derivationPath(index: number): string {
+  return `m/44'/60'/0'/0/${index}`;
+}
+
+export function solanaDerivationPath(index: number): string {
+  return `m/44'/501'/${index}'/0'`;
+}
+
+/** Index of a BIP-44 Ethereum path, or undefined for other paths */
+export function pathIndex(path: string): number | undefined {
+  const match = /^m\/44'\/60'\/0'\/0\/(\d+)$/.exec(path);
+  return match ? Number(match[1]) : undefined;
+}
+
+/** Collapse whitespace and case so pasted phrases compare equal */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.normalize('NFKD').trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+/** 12-word English mnemonic (128 bits of entropy) */
+export function generateMnemonic(): string {
+  return generateBip39Mnemonic(english, 128);
+}
+
+/** Check word count, wordlist membership and the BIP-39 checksum */
+export function validateMnemonic(mnemonic: string): { valid: true } | { valid: false; error: string } {
+  const words = normalizeMnemonic(mnemonic).split(' ');
+  if (!VALID_WORD_COUNTS.includes(words.length)) {
+    return { valid: false, error: `Mnemonic must have 12, 15, 18, 21 or 24 words, got ${words.length}` };
+  }
+
+  const unknown = words.filter((word) => !english.includes(word));
+  if (unknown.length > 0) {
+    return { valid: false, error: `Not in the BIP-39 English wordlist: ${unknown.join(', ')}` };
+  }
+
+  if (!isValidBip39Mnemonic(words.join(' '), english)) {
+    return { valid: false, error: 'Mnemonic checksum is invalid. Check the words and their order' };
+  }
+  return { valid: true };
+}
+
+function mnemonicSeed(mnemonic: string): Uint8Array {
+  return mnemonicToSeedSync(normalizeMnemonic(mnemonic));
+}
+
+function masterKey(mnemonic: string): HDKey {
+  return HDKey.fromMasterSeed(mnemonicSeed(mnemonic));
+}
+
+/** Private key at a derivation path */
+export function derivePrivateKey(mnemonic: string, path: string): `0x${string}` {
+  const { privateKey } = masterKey(mnemonic).derive(path);
+  if (!privateKey) throw new Error(`Could not derive a private key at ${path}`);
+  return toHex(privateKey);
+}
+
+/**
+ * Master key fingerprint. Not secret - identifies accounts derived from the same
+ * mnemonic without decrypting them.
+ */
+export function mnemonicFingerprint(mnemonic: string): string {
+  return masterKey(mnemonic).fingerprint.toString(16).padStart(8, '0');
+}
+
+/** SLIP-0010 ed25519 derivation. Only hardened levels exist for ed25519 */
+export function deriveEd25519Seed(seed: Uint8Array, path: string): Uint8Array {
+  const segments = path.split('/');
+  if (segments[0] !== 'm') throw new Error(`Invalid derivation path: ${path}`);
+
+  let digest = createHmac('sha512', 'ed25519 seed').update(seed).digest();
+  for (const segment of segments.slice(1)) {
+    const match = /^(\d+)'$/.exec(segment);
+    if (!match) throw new Error(`ed25519 derivation needs hardened levels, got "${segment}" in ${path}`);
+
+    const data = Buffer.alloc(37);
+    digest.copy(data, 1, 0, 32);
+    data.writeUInt32BE((Number(match[1]) | 0x80000000) >>> 0, 33);
+    digest = createHmac('sha512', digest.subarray(32)).update(data).digest();
+  }
+  return new Uint8Array(digest.subarray(0, 32));
+}
+
+/** ed25519 seed of a Solana account derived from a mnemonic */
+export function deriveSolanaSeed(mnemonic: string, path: string): Uint8Array {
+  return deriveEd25519Seed(mnemonicSeed(mnemonic), path);
+}
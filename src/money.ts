@@ -0,0 +1,107 @@
+/**
+ * Money - exact token amounts
+ *
+ * Amounts stay bigint raw units and only become decimal strings for display,
+ * using the asset's own decimals. Nothing goes through Number, so a $0.001 price
+ * or a large balance renders exactly.
+ */
+
+export interface Asset {
+  decimals: number;
+  symbol: string;
+}
+
+export interface Money extends Asset {
+  /** Raw units */
+  raw: bigint;
+}
+
+export const USDC: Asset = { decimals: 6, symbol: 'USDC' };
+
+/** Stand-in for assets missing from the token registry: shown as raw units */
+export const RAW_UNITS: Asset = { decimals: 0, symbol: 'raw units' };
+
+export function money(raw: bigint | string, asset: Asset = USDC): Money {
+  return { raw: typeof raw === 'bigint' ? raw : BigInt(raw), decimals: asset.decimals, symbol: asset.symbol };
+}
+
+/** Exact decimal string without trailing zeros ("0.001", "12") */
+export function toDecimal(raw: bigint, decimals: number): string {
+  const negative = raw < 0n;
+  const digits = (negative ? -raw : raw).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/** "$0.001" or "$1.50" for USDC (always at least cents), "1.5 EURC" for other assets */
+export function formatMoney(amount: Money): string {
+  const value = toDecimal(amount.raw, amount.decimals);
+  if (amount.symbol !== USDC.symbol) return `${value} ${amount.symbol}`;
+  const [whole, fraction = ''] = value.split('.');
+  return `$${whole}.${fraction.padEnd(2, '0')}`;
+}
+
+/** `{ price: "$0.001", priceRaw: "1000" }` - the human and raw form used for amounts in tool responses */
+export function amountFields<K extends string>(key: K, amount: Money): Record<K | `${K}Raw`, string> {
+  return { [key]: formatMoney(amount), [`${key}Raw`]: amount.raw.toString() } as Record<K | `${K}Raw`, string>;
+}
+
+/**
+ * An amount in USDC raw units (6 decimals), the unit price caps, budgets and the approval
+ * threshold are set in. USDC with other decimals is rescaled, rounding up so a limit is never
+ * passed by dropped digits. Other assets have no USD value here and return undefined
+ */
+export function toUsdcUnits(amount: Money): bigint | undefined {
+  if (amount.symbol.toUpperCase() !== USDC.symbol) return undefined;
+  const shift = amount.decimals - USDC.decimals;
+  if (shift <= 0) return amount.raw * 10n ** BigInt(-shift);
+  const scale = 10n ** BigInt(shift);
+  return (amount.raw + scale - 1n) / scale;
+}
+
+/** Decimal string to raw units. Rejects more fraction digits than the asset has rather than rounding */
+export function parseDecimal(value: string, decimals: number): bigint {
+  const match = value.trim().match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid amount: "${value}"`);
+  }
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`Invalid amount: "${value}" has more than ${decimals} decimal places`);
+  }
+  return BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+}
+
+/** Format USDC raw units (6 decimals) as USD */
+export function formatUSDC(amount: bigint): string {
+  return formatMoney(money(amount));
+}
+
+/** Parse a USD string ("$1.50", "0.001") to USDC raw units */
+export function parseUSDC(amount: string): bigint {
+  return parseDecimal(amount.trim().replace(/^\$/, ''), USDC.decimals);
+}
+
+/**
+ * Parse an amount of a USD-valued asset into its raw units. `$`-prefixed or decimal strings
+ * are USD ("$0.05", "0.05"), `raw:` integers are raw units ("raw:50000"). A bare integer is
+ * refused: read as raw units, "5" would mean $0.000005
+ */
+export function parseAmount(amount: string, asset: Asset): bigint {
+  const cleaned = amount.trim();
+  const raw = /^raw:\s*(\d+)$/i.exec(cleaned);
+  if (raw) return BigInt(raw[1]);
+  if (/^\d+$/.test(cleaned)) {
+    throw new Error(`Ambiguous amount: "${amount}". Use USD ("$${cleaned}") or raw units ("raw:${cleaned}")`);
+  }
+  if (!/^\$?(\d+\.?\d*|\.\d+)$/.test(cleaned)) {
+    throw new Error(`Invalid amount: "${amount}". Use USD ("$0.05") or raw units ("raw:50000")`);
+  }
+  return parseDecimal(cleaned.replace(/^\$/, ''), asset.decimals);
+}
+
+/** Parse a price cap, budget or approval threshold into USDC raw units (6 decimals) */
+export function parseAmountLimit(amount: string): bigint {
+  return parseAmount(amount, USDC);
+}
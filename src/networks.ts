@@ -1,15 +1,31 @@
 /**
  * Chain configurations - CAIP-2 identifiers, USDC addresses, viem chains
+ *
+ * Built-in EVM chains live in CHAIN_CONFIGS, Solana clusters in SOLANA_CONFIGS.
+ * Extra EVM chains and EIP-3009 tokens come from `networks` and `tokens` in config,
+ * merged into a registry on first use.
  */
 
 import { base, baseSepolia, mainnet, sepolia, optimism, arbitrum, polygon } from 'viem/chains';
-import type { Chain } from 'viem';
+import { defineChain, type Chain } from 'viem';
+import { getConfig, type Config, type NetworkEntry, type TokenEntry } from './config';
+import { money, RAW_UNITS, type Asset, type Money } from './money';
+import {
+  DEVNET_RPC_URL,
+  MAINNET_RPC_URL,
+  SOLANA_DEVNET_CAIP2,
+  SOLANA_MAINNET_CAIP2,
+  USDC_DEVNET_ADDRESS,
+  USDC_MAINNET_ADDRESS,
+} from '@x402/svm';
 
 export interface ChainConfig {
   chain: Chain;
   caip2: string;
-  v1Name: string;
-  usdcAddress: `0x${string}`;
+  /** Unset for config chains without an alias */
+  v1Name?: string;
+  /** Unset for config chains without a USDC token */
+  usdcAddress?: `0x${string}`;
 }
 
 export const CHAIN_CONFIGS: Record<string, ChainConfig> = {
@@ -57,6 +73,76 @@ export const CHAIN_CONFIGS: Record<string, ChainConfig> = {
   },
 };
 
+export interface SolanaConfig {
+  caip2: `solana:${string}`;
+  v1Name: string;
+  name: string;
+  /** USDC SPL token mint */
+  usdcMint: string;
+  rpcUrl: string;
+  /** explorer.solana.com cluster parameter, unset for mainnet */
+  explorerCluster?: string;
+  testnet: boolean;
+}
+
+export const SOLANA_CONFIGS: Record<string, SolanaConfig> = {
+  [SOLANA_MAINNET_CAIP2]: {
+    caip2: SOLANA_MAINNET_CAIP2,
+    v1Name: 'solana',
+    name: 'Solana',
+    usdcMint: USDC_MAINNET_ADDRESS,
+    rpcUrl: MAINNET_RPC_URL,
+    testnet: false,
+  },
+  [SOLANA_DEVNET_CAIP2]: {
+    caip2: SOLANA_DEVNET_CAIP2,
+    v1Name: 'solana-devnet',
+    name: 'Solana Devnet',
+    usdcMint: USDC_DEVNET_ADDRESS,
+    rpcUrl: DEVNET_RPC_URL,
+    explorerCluster: 'devnet',
+    testnet: true,
+  },
+};
+
+const SOLANA_EXPLORER_URL = 'https://explorer.solana.com';
+
+export interface TokenConfig extends Asset {
+  /** CAIP-2 */
+  network: string;
+  /** EVM contract or Solana mint */
+  address: string;
+  /** EIP-712 domain of an EIP-3009 token, unset for SPL tokens */
+  eip712?: { name: string; version: string };
+}
+
+// EIP-712 domains of the built-in USDC contracts
+const USDC_EIP712: Record<string, { name: string; version: string }> = {
+  'eip155:8453': { name: 'USD Coin', version: '2' },
+  'eip155:84532': { name: 'USDC', version: '2' },
+  'eip155:1': { name: 'USD Coin', version: '2' },
+  'eip155:11155111': { name: 'USDC', version: '2' },
+  'eip155:10': { name: 'USD Coin', version: '2' },
+  'eip155:42161': { name: 'USD Coin', version: '2' },
+  'eip155:137': { name: 'USD Coin', version: '2' },
+};
+
+const BUILTIN_TOKENS: TokenConfig[] = [
+  ...Object.values(CHAIN_CONFIGS).map((config) => ({
+    network: config.caip2,
+    address: config.usdcAddress!,
+    symbol: 'USDC',
+    decimals: 6,
+    eip712: USDC_EIP712[config.caip2],
+  })),
+  ...Object.values(SOLANA_CONFIGS).map((config) => ({
+    network: config.caip2,
+    address: config.usdcMint,
+    symbol: 'USDC',
+    decimals: 6,
+  })),
+];
+
 const V1_TO_CAIP2: Record<string, string> = {
   base: 'eip155:8453',
   'base-sepolia': 'eip155:84532',
@@ -65,24 +151,142 @@ const V1_TO_CAIP2: Record<string, string> = {
   optimism: 'eip155:10',
   arbitrum: 'eip155:42161',
   polygon: 'eip155:137',
+  solana: SOLANA_MAINNET_CAIP2,
+  'solana-devnet': SOLANA_DEVNET_CAIP2,
 };
 
 export const DEFAULT_NETWORK = 'eip155:8453';
 
 /** Convert any network identifier to CAIP-2 format */
 export function toCaip2(network: string): string {
-  if (network.startsWith('eip155:')) return network;
-  return V1_TO_CAIP2[network.toLowerCase()] ?? network;
+  if (network.startsWith('eip155:') || network.startsWith('solana:')) return network;
+  return getRegistry().v1ToCaip2[network.toLowerCase()] ?? network;
+}
+
+export interface Registry {
+  chains: Record<string, ChainConfig>;
+  v1ToCaip2: Record<string, string>;
+  tokens: TokenConfig[];
+}
+
+let registry: Registry | null = null;
+
+const DEFAULT_NATIVE_CURRENCY = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+function configChain(caip2: string, entry: NetworkEntry, usdc?: TokenEntry): ChainConfig {
+  const chain = defineChain({
+    id: Number(caip2.slice('eip155:'.length)),
+    name: entry.name,
+    nativeCurrency: entry.nativeCurrency ?? DEFAULT_NATIVE_CURRENCY,
+    rpcUrls: { default: { http: entry.rpcUrls } },
+    blockExplorers: entry.explorerUrl ? { default: { name: entry.name, url: entry.explorerUrl } } : undefined,
+    testnet: entry.testnet,
+  });
+  return { chain, caip2, v1Name: entry.v1Name, usdcAddress: usdc?.address as `0x${string}` | undefined };
+}
+
+/** Built-in chains and tokens plus those from config. Inconsistent entries throw, like invalid config */
+export function buildRegistry({ networks = {}, tokens = [] }: Pick<Config, 'networks' | 'tokens'>): Registry {
+  const v1ToCaip2 = { ...V1_TO_CAIP2 };
+  for (const [caip2, entry] of Object.entries(networks)) {
+    if (CHAIN_CONFIGS[caip2]) throw new Error(`Config networks: ${caip2} is already built in`);
+    if (!entry.v1Name) continue;
+    if (v1ToCaip2[entry.v1Name]) throw new Error(`Config networks.${caip2}: v1Name "${entry.v1Name}" is already used`);
+    v1ToCaip2[entry.v1Name] = caip2;
+  }
+
+  const configTokens = tokens.map((token, i) => {
+    const network = token.network.includes(':') ? token.network : v1ToCaip2[token.network.toLowerCase()];
+    if (!network || (!CHAIN_CONFIGS[network] && !networks[network])) {
+      throw new Error(`Config tokens[${i}]: unknown EVM network "${token.network}"`);
+    }
+    return { ...token, network };
+  });
+
+  const chains = { ...CHAIN_CONFIGS };
+  for (const [caip2, entry] of Object.entries(networks)) {
+    const usdc = configTokens.find((t) => t.network === caip2 && t.symbol.toUpperCase() === 'USDC');
+    chains[caip2] = configChain(caip2, entry, usdc);
+  }
+
+  const fromConfig: TokenConfig[] = configTokens.map(({ network, address, symbol, decimals, name, version }) => ({
+    network,
+    address,
+    symbol,
+    decimals,
+    eip712: { name, version },
+  }));
+  // A config token at the same address replaces the built-in one
+  const builtin = BUILTIN_TOKENS.filter(
+    (t) => !fromConfig.some((c) => c.network === t.network && c.address.toLowerCase() === t.address.toLowerCase())
+  );
+
+  return { chains, v1ToCaip2, tokens: [...builtin, ...fromConfig] };
+}
+
+function getRegistry(): Registry {
+  return (registry ??= buildRegistry(getConfig()));
+}
+
+/** Every known network as CAIP-2: EVM chains (built-in, then config), then Solana */
+export function listNetworks(): string[] {
+  return [...Object.keys(getRegistry().chains), ...Object.keys(SOLANA_CONFIGS)];
+}
+
+/** Registered tokens, optionally only those on one network */
+export function getTokens(network?: string): TokenConfig[] {
+  const { tokens } = getRegistry();
+  if (!network) return tokens;
+  const caip2 = toCaip2(network);
+  return tokens.filter((t) => t.network === caip2);
+}
+
+/** Token by contract/mint address, or by symbol ("EURC") */
+export function getToken(network: string, asset: string): TokenConfig | undefined {
+  const candidates = getTokens(network);
+  return (
+    candidates.find((t) => t.address.toLowerCase() === asset.toLowerCase()) ??
+    candidates.find((t) => t.symbol.toUpperCase() === asset.toUpperCase())
+  );
+}
+
+/** Amount of an asset in its registered decimals. Unregistered assets stay in raw units */
+export function assetAmount(network: string, asset: string, raw: bigint | string): Money {
+  return money(raw, getToken(network, asset) ?? RAW_UNITS);
+}
+
+/** defaultNetwork from config as CAIP-2, or Base */
+export function getDefaultNetwork(): string {
+  const configured = getConfig().defaultNetwork;
+  if (!configured) return DEFAULT_NETWORK;
+  if (!isSupportedNetwork(configured)) {
+    throw new Error(`Config defaultNetwork "${configured}" is not a supported network`);
+  }
+  return toCaip2(configured);
 }
 
 /** Get chain config from network identifier */
 export function getChainConfig(network: string): ChainConfig | undefined {
-  return CHAIN_CONFIGS[toCaip2(network)];
+  return getRegistry().chains[toCaip2(network)];
 }
 
-/** Get USDC address for a network */
-export function getUSDCAddress(network: string): `0x${string}` | undefined {
-  return getChainConfig(network)?.usdcAddress;
+/** Get Solana cluster config from network identifier */
+export function getSolanaConfig(network: string): SolanaConfig | undefined {
+  return SOLANA_CONFIGS[toCaip2(network)];
+}
+
+export function isSolanaNetwork(network: string): boolean {
+  return toCaip2(network).startsWith('solana:');
+}
+
+/** Whether payments and balances work on this network */
+export function isSupportedNetwork(network: string): boolean {
+  return !!getChainConfig(network) || !!getSolanaConfig(network);
+}
+
+/** Get USDC address (EVM contract or Solana mint) for a network */
+export function getUSDCAddress(network: string): string | undefined {
+  return getChainConfig(network)?.usdcAddress ?? getSolanaConfig(network)?.usdcMint;
 }
 
 /** Get viem Chain object for a network */
@@ -99,15 +303,27 @@ export function getChainId(network: string): number | undefined {
 
 /** Get human-readable chain name */
 export function getChainName(network: string): string {
-  return getChainConfig(network)?.chain.name ?? network;
+  return getChainConfig(network)?.chain.name ?? getSolanaConfig(network)?.name ?? network;
 }
 
 /** Get block explorer URL for a network */
 export function getExplorerUrl(network: string): string | undefined {
+  if (getSolanaConfig(network)) return SOLANA_EXPLORER_URL;
   return getChainConfig(network)?.chain.blockExplorers?.default.url;
 }
 
+/** Explorer page for an address or transaction */
+export function getExplorerLink(network: string, kind: 'address' | 'tx', value: string): string | undefined {
+  const solana = getSolanaConfig(network);
+  if (solana) {
+    const cluster = solana.explorerCluster ? `?cluster=${solana.explorerCluster}` : '';
+    return `${SOLANA_EXPLORER_URL}/${kind}/${value}${cluster}`;
+  }
+  const explorerUrl = getExplorerUrl(network);
+  return explorerUrl ? `${explorerUrl}/${kind}/${value}` : undefined;
+}
+
 /** Check if network is a testnet */
 export function isTestnet(network: string): boolean {
-  return getChainConfig(network)?.chain.testnet === true;
+  return getChainConfig(network)?.chain.testnet === true || getSolanaConfig(network)?.testnet === true;
 }
@@ -0,0 +1,120 @@
+/**
+ * Payment policy - origin, payTo, network and asset rules from config.json
+ *
+ * Checked before anything is signed, so a prompt-injected URL cannot
+ * make the wallet pay or authenticate to an arbitrary server.
+ */
+
+import { getPolicies, type PolicyConfig } from './config';
+import { toCaip2 } from './networks';
+
+export type PolicyRule = 'blockedOrigins' | 'allowedOrigins' | 'allowedPayTo' | 'allowedNetworks' | 'allowedAssets';
+
+export interface PolicyCheck {
+  rule: PolicyRule;
+  passed: boolean;
+  message: string;
+}
+
+export interface PolicyTarget {
+  url?: string;
+  network?: string;
+  payTo?: string;
+  asset?: string;
+}
+
+/** Case-insensitive glob where `*` matches any run of characters */
+export function globMatch(pattern: string, value: string): boolean {
+  const escaped = pattern
+    .toLowerCase()
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`).test(value.toLowerCase());
+}
+
+/**
+ * Match a URL against an origin pattern.
+ * Patterns with a scheme ("https://*.example.com") match the origin, others match the hostname.
+ */
+export function matchesOriginPattern(pattern: string, url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  return pattern.includes('://') ? globMatch(pattern, parsed.origin) : globMatch(pattern, parsed.hostname);
+}
+
+function checkList(
+  rule: PolicyRule,
+  patterns: string[],
+  label: string,
+  value: string,
+  matches: (pattern: string) => boolean
+): PolicyCheck {
+  const passed = patterns.some(matches);
+  return {
+    rule,
+    passed,
+    message: passed ? `${label} ${value} is allowed` : `${label} ${value} is not in ${rule} (${patterns.join(', ')})`,
+  };
+}
+
+/**
+ * Evaluate every configured rule that applies to the target. With several policies
+ * (global and project config), the target must pass the rules of each one
+ */
+export function evaluatePolicy(
+  target: PolicyTarget,
+  policy: PolicyConfig | PolicyConfig[] | undefined = getPolicies()
+): PolicyCheck[] {
+  if (Array.isArray(policy)) return policy.flatMap((p) => evaluatePolicy(target, p));
+  if (!policy) return [];
+  const checks: PolicyCheck[] = [];
+
+  if (target.url) {
+    const url = target.url;
+    if (policy.blockedOrigins?.length) {
+      const blocked = policy.blockedOrigins.find((p) => matchesOriginPattern(p, url));
+      checks.push({
+        rule: 'blockedOrigins',
+        passed: !blocked,
+        message: blocked ? `Origin of ${url} is blocked by "${blocked}"` : `Origin of ${url} is not blocked`,
+      });
+    }
+    if (policy.allowedOrigins?.length) {
+      checks.push(
+        checkList('allowedOrigins', policy.allowedOrigins, 'Origin of', url, (p) => matchesOriginPattern(p, url))
+      );
+    }
+  }
+
+  if (target.payTo && policy.allowedPayTo?.length) {
+    const payTo = target.payTo;
+    checks.push(
+      checkList('allowedPayTo', policy.allowedPayTo, 'payTo', payTo, (p) => p.toLowerCase() === payTo.toLowerCase())
+    );
+  }
+
+  if (target.network && policy.allowedNetworks?.length) {
+    const network = toCaip2(target.network);
+    checks.push(
+      checkList('allowedNetworks', policy.allowedNetworks, 'Network', network, (p) => globMatch(toCaip2(p), network))
+    );
+  }
+
+  if (target.asset && policy.allowedAssets?.length) {
+    const asset = target.asset;
+    checks.push(
+      checkList('allowedAssets', policy.allowedAssets, 'Asset', asset, (p) => p.toLowerCase() === asset.toLowerCase())
+    );
+  }
+
+  return checks;
+}
+
+export function policyFailures(checks: PolicyCheck[]): PolicyCheck[] {
+  return checks.filter((c) => !c.passed);
+}
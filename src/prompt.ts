@@ -0,0 +1,57 @@
+/**
+ * Terminal prompt - reads a secret from the user's terminal
+ *
+ * stdin/stdout carry the MCP protocol, so this opens the terminal device directly:
+ * /dev/tty on macOS/Linux, CONIN$/CONOUT$ on Windows.
+ */
+
+import { openSync } from 'fs';
+import { ReadStream, WriteStream } from 'tty';
+
+function openTerminal(): { input: ReadStream; output: WriteStream } | null {
+  const isWindows = process.platform === 'win32';
+  try {
+    const input = new ReadStream(openSync(isWindows ? 'CONIN$' : '/dev/tty', 'r'));
+    const output = new WriteStream(openSync(isWindows ? 'CONOUT$' : '/dev/tty', 'w'));
+    return { input, output };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Prompt for a secret without echoing it.
+ * Resolves undefined when no terminal is attached (e.g. launched by a desktop app).
+ */
+export function promptSecret(question: string): Promise<string | undefined> {
+  const terminal = openTerminal();
+  if (!terminal) return Promise.resolve(undefined);
+  const { input, output } = terminal;
+
+  return new Promise((resolve, reject) => {
+    let value = '';
+
+    const finish = (err?: Error) => {
+      input.setRawMode(false);
+      input.removeListener('data', onData);
+      output.write('\n');
+      input.destroy();
+      output.destroy();
+      if (err) reject(err);
+      else resolve(value);
+    };
+
+    const onData = (chunk: Buffer) => {
+      for (const char of chunk.toString('utf-8')) {
+        if (char === '\r' || char === '\n') return finish();
+        if (char === '\u0003') return finish(new Error('Passphrase prompt cancelled'));
+        if (char === '\u007f' || char === '\b') value = value.slice(0, -1);
+        else value += char;
+      }
+    };
+
+    output.write(question);
+    input.setRawMode(true);
+    input.on('data', onData);
+  });
+}
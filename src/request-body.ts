@@ -0,0 +1,203 @@
+/**
+ * Request bodies - JSON by default, or form, multipart, plain text and raw binary
+ *
+ * Multipart and binary bodies can upload local files: any value shaped like
+ * `{ "file": "audio.wav" }` is read from disk and sent as a file part. Files are only
+ * read from the configured uploads directory, and only after the caller confirms them.
+ */
+
+import { readFile, realpath } from 'fs/promises';
+import { basename, isAbsolute, relative, resolve } from 'path';
+import { configDir, dataDir, expandPath, getConfig } from './config';
+import { mimeTypeFor } from './downloads';
+
+export const BODY_TYPES = ['json', 'form', 'multipart', 'text', 'binary'] as const;
+export type BodyType = (typeof BODY_TYPES)[number];
+
+export interface FileUpload {
+  /** Path inside the uploads directory, relative to it or absolute. ~ is expanded */
+  file: string;
+  /** Defaults to the file's name */
+  filename?: string;
+  /** Defaults to the type for the file's extension */
+  contentType?: string;
+}
+
+export interface EncodedBody {
+  body?: string | URLSearchParams | FormData | Blob;
+  /** Unset for multipart, where fetch sets it along with the boundary */
+  contentType?: string;
+  /** Local files were read. Their content can change between calls, so the response is not cached */
+  hasFiles: boolean;
+}
+
+/** Asked with the resolved paths before any local file is read. Throws to refuse the upload */
+export type UploadConfirmation = (paths: string[]) => Promise<void>;
+
+/** Shared description of the bodyType tool input */
+export const BODY_TYPE_DESCRIPTION =
+  'How body is sent: "json" (default), "form" (urlencoded fields), "multipart" (fields; { "file": "<path>" } values upload files from the configured uploads directory), ' +
+  '"text" (string body), "binary" ({ "file": "<path>" } or { "base64": "<data>", "contentType": "..." }). The user confirms every upload';
+
+export function isFileUpload(value: unknown): value is FileUpload {
+  return !!value && typeof value === 'object' && typeof (value as FileUpload).file === 'string';
+}
+
+function isInside(dir: string, path: string): boolean {
+  const rel = relative(dir, path);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+async function realPathOf(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch {
+    return path;
+  }
+}
+
+/** The uploads directory, from config by default. Refused when it overlaps the wallet's data or config directory */
+async function uploadsDir(configured = getConfig().uploads?.dir): Promise<string> {
+  if (!configured) {
+    throw new Error('File uploads are disabled. Set "uploads": { "dir": "<directory>" } in config.json to allow them');
+  }
+  let dir: string;
+  try {
+    dir = await realpath(expandPath(configured));
+  } catch (err) {
+    throw new Error(`Cannot use uploads.dir ${configured}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  for (const secret of [await realPathOf(dataDir()), await realPathOf(configDir)]) {
+    if (isInside(dir, secret) || isInside(secret, dir)) {
+      throw new Error(`uploads.dir ${dir} must not contain or be inside ${secret}, which holds the wallet`);
+    }
+  }
+  return dir;
+}
+
+/**
+ * Absolute path of an upload, with symlinks resolved. Relative paths are taken from
+ * the uploads directory; anything that ends up outside it is refused
+ */
+export async function resolveUpload(file: string, configuredDir?: string): Promise<string> {
+  const dir = await uploadsDir(configuredDir);
+  const requested = file.startsWith('~') || isAbsolute(file) ? expandPath(file) : resolve(dir, file);
+  let path: string;
+  try {
+    path = await realpath(requested);
+  } catch (err) {
+    throw new Error(`Cannot read upload ${requested}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!isInside(dir, path) || path === dir) {
+    throw new Error(`Upload ${requested} is outside the uploads directory ${dir}`);
+  }
+  return path;
+}
+
+async function readUpload(upload: FileUpload, path: string): Promise<{ blob: Blob; filename: string }> {
+  let bytes: Buffer;
+  try {
+    bytes = await readFile(path);
+  } catch (err) {
+    throw new Error(`Cannot read upload ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return {
+    blob: new Blob([new Uint8Array(bytes)], { type: upload.contentType ?? mimeTypeFor(path) }),
+    filename: upload.filename ?? basename(path),
+  };
+}
+
+/** Form fields from a flat object. Array values repeat the field */
+function fields(body: unknown, bodyType: BodyType): [string, unknown][] {
+  if (body === undefined) return [];
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error(`bodyType "${bodyType}" needs an object of fields`);
+  }
+  return Object.entries(body).flatMap(([name, value]) =>
+    Array.isArray(value) ? value.map((v): [string, unknown] => [name, v]) : [[name, value]]
+  );
+}
+
+/** Form field value: strings as-is, objects as JSON */
+function fieldValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === null || typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/** File uploads in a body, in the order they are sent. Only multipart and binary bodies carry files */
+function uploadsIn(body: unknown, bodyType: BodyType): FileUpload[] {
+  if (bodyType === 'binary') return isFileUpload(body) ? [body] : [];
+  if (bodyType !== 'multipart') return [];
+  return fields(body, bodyType)
+    .map(([, value]) => value)
+    .filter(isFileUpload);
+}
+
+/**
+ * Encode a body for fetch. Local files are resolved inside the uploads directory, then
+ * confirmUploads is asked before any of them is read. Without it, uploads are refused
+ */
+export async function encodeBody(
+  body: unknown,
+  bodyType: BodyType = 'json',
+  opts: { confirmUploads?: UploadConfirmation; uploadsDir?: string } = {}
+): Promise<EncodedBody> {
+  const uploads = uploadsIn(body, bodyType);
+  const paths = new Map<FileUpload, string>();
+  if (uploads.length > 0) {
+    for (const upload of uploads) paths.set(upload, await resolveUpload(upload.file, opts.uploadsDir));
+    if (!opts.confirmUploads) throw new Error('File uploads need confirmation, which this call cannot ask for');
+    await opts.confirmUploads([...new Set(paths.values())]);
+  }
+
+  switch (bodyType) {
+    case 'json':
+      return { body: body ? JSON.stringify(body) : undefined, contentType: 'application/json', hasFiles: false };
+
+    case 'text':
+      if (body !== undefined && typeof body !== 'string') throw new Error('bodyType "text" needs a string body');
+      return { body, contentType: 'text/plain; charset=utf-8', hasFiles: false };
+
+    case 'form': {
+      const params = new URLSearchParams();
+      for (const [name, value] of fields(body, bodyType)) {
+        if (isFileUpload(value)) throw new Error(`Field "${name}" is a file. File uploads need bodyType "multipart"`);
+        params.append(name, fieldValue(value));
+      }
+      return { body: params, contentType: 'application/x-www-form-urlencoded', hasFiles: false };
+    }
+
+    case 'multipart': {
+      const form = new FormData();
+      for (const [name, value] of fields(body, bodyType)) {
+        if (isFileUpload(value)) {
+          const { blob, filename } = await readUpload(value, paths.get(value)!);
+          form.append(name, blob, filename);
+        } else {
+          form.append(name, fieldValue(value));
+        }
+      }
+      return { body: form, hasFiles: uploads.length > 0 };
+    }
+
+    case 'binary': {
+      if (isFileUpload(body)) {
+        const { blob } = await readUpload(body, paths.get(body)!);
+        return { body: blob, contentType: blob.type, hasFiles: true };
+      }
+      const base64 = (body as { base64?: unknown } | undefined)?.base64;
+      if (typeof base64 !== 'string') {
+        throw new Error('bodyType "binary" needs { "file": "<path>" } or { "base64": "<data>" }');
+      }
+      const contentType = (body as { contentType?: string }).contentType ?? 'application/octet-stream';
+      const bytes = new Uint8Array(Buffer.from(base64, 'base64'));
+      return { body: new Blob([bytes], { type: contentType }), contentType, hasFiles: false };
+    }
+  }
+}
+
+/** Content-Type header for an encoded body. Spread before caller headers so those win */
+export function contentTypeHeader(encoded: EncodedBody): Record<string, string> {
+  return encoded.contentType ? { 'Content-Type': encoded.contentType } : {};
+}
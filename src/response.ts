@@ -2,12 +2,41 @@
  * MCP response helpers
  */
 
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import { pathToFileURL } from 'url';
+import type { ImageContent, ResourceLink } from '@modelcontextprotocol/sdk/types.js';
+import type { SavedFile } from './downloads';
+
+/** Larger images are only linked, not inlined as base64 */
+const INLINE_IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+
 export function mcpSuccess<T>(data: T) {
   return {
     content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }],
   };
 }
 
+/** File content block: the image itself for images, a resource_link to the saved file otherwise */
+export async function mcpFile(file: SavedFile): Promise<ImageContent | ResourceLink> {
+  if (file.mimeType.startsWith('image/') && file.size <= INLINE_IMAGE_MAX_BYTES) {
+    return { type: 'image', data: (await readFile(file.path)).toString('base64'), mimeType: file.mimeType };
+  }
+  return {
+    type: 'resource_link',
+    uri: pathToFileURL(file.path).href,
+    name: basename(file.path),
+    mimeType: file.mimeType,
+    description: `${file.size} bytes saved to ${file.path}`,
+  };
+}
+
+/** mcpSuccess followed by a content block for the saved file */
+export async function mcpSuccessWithFile<T>(data: T, file: SavedFile) {
+  const result = mcpSuccess(data);
+  return { content: [...result.content, await mcpFile(file)] };
+}
+
 export function mcpError(error: unknown, context?: Record<string, unknown>) {
   let message: string;
   let details: Record<string, unknown> | undefined;
@@ -32,14 +61,3 @@ export function mcpError(error: unknown, context?: Record<string, unknown>) {
     isError: true as const,
   };
 }
-
-/** Format USDC amount from raw units (6 decimals) to USD string */
-export function formatUSDC(amount: bigint): string {
-  return `$${(Number(amount) / 1_000_000).toFixed(2)}`;
-}
-
-/** Parse USDC amount string to raw units */
-export function parseUSDC(amount: string): bigint {
-  const cleaned = amount.trim().replace(/^\$/, '');
-  return BigInt(Math.round(parseFloat(cleaned) * 1_000_000));
-}
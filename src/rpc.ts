@@ -0,0 +1,144 @@
+/**
+ * RPC endpoints - per-network URLs from env and config, with fallback
+ *
+ * Resolution order for a network:
+ * 1. X402_RPC_<NETWORK> env var, comma-separated (e.g. X402_RPC_EIP155_8453 or X402_RPC_BASE)
+ * 2. `rpc` in config.json, keyed by CAIP-2 or v1 name
+ * 3. The chain's public default
+ * Configured URLs replace the public default, so a local node is never bypassed.
+ */
+
+import { createPublicClient, fallback, http, type Transport } from 'viem';
+import { createRpcClient } from '@x402/svm';
+import { getConfig } from './config';
+import { getChainConfig, getSolanaConfig, toCaip2 } from './networks';
+import { log } from './log';
+
+const HEALTH_TIMEOUT_MS = 5_000;
+
+function splitUrls(value: string | string[]): string[] {
+  return (Array.isArray(value) ? value : value.split(','))
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+function envVarName(network: string): string {
+  return `X402_RPC_${network.replace(/[^a-z0-9]/gi, '_').toUpperCase()}`;
+}
+
+/** Env var names checked for a network, CAIP-2 form first */
+export function rpcEnvVars(network: string): string[] {
+  const caip2 = toCaip2(network);
+  const v1Name = getChainConfig(caip2)?.v1Name ?? getSolanaConfig(caip2)?.v1Name;
+  return v1Name ? [envVarName(caip2), envVarName(v1Name)] : [envVarName(caip2)];
+}
+
+export interface RpcUrls {
+  source: 'env' | 'config' | 'default';
+  urls: string[];
+}
+
+export function resolveRpcUrls(network: string): RpcUrls {
+  const caip2 = toCaip2(network);
+
+  for (const name of rpcEnvVars(caip2)) {
+    const urls = splitUrls(process.env[name] ?? '');
+    if (urls.length > 0) return { source: 'env', urls };
+  }
+
+  // rpc is only read from the global config. Last match wins, so a v1-name key listed after a CAIP-2 key overrides it
+  const configured = Object.entries(getConfig().rpc ?? {})
+    .filter(([key]) => toCaip2(key) === caip2)
+    .pop();
+  if (configured) return { source: 'config', urls: splitUrls(configured[1]) };
+
+  const solana = getSolanaConfig(caip2);
+  const urls = solana ? [solana.rpcUrl] : [...(getChainConfig(caip2)?.chain.rpcUrls.default.http ?? [])];
+  return { source: 'default', urls };
+}
+
+export function getRpcUrls(network: string): string[] {
+  return resolveRpcUrls(network).urls;
+}
+
+/** viem transport that fails over across the network's URLs in order */
+export function getEvmTransport(network: string): Transport {
+  const urls = getRpcUrls(network);
+  return urls.length > 1 ? fallback(urls.map((url) => http(url))) : http(urls[0]);
+}
+
+export function createEvmClient(network: string) {
+  const config = getChainConfig(network);
+  if (!config) throw new Error(`Unsupported network: ${network}`);
+  return createPublicClient({ chain: config.chain, transport: getEvmTransport(network) });
+}
+
+type SolanaRpc = ReturnType<typeof createRpcClient>;
+
+/** Run a Solana RPC call, trying each URL in order until one succeeds */
+export async function withSolanaRpc<T>(network: string, call: (rpc: SolanaRpc) => Promise<T>): Promise<T> {
+  const config = getSolanaConfig(network);
+  if (!config) throw new Error(`Unsupported network: ${network}`);
+
+  let lastError: unknown;
+  for (const url of getRpcUrls(network)) {
+    try {
+      return await call(createRpcClient(config.caip2, url));
+    } catch (err) {
+      lastError = err;
+      log.debug(`Solana RPC ${redactRpcUrl(url)} failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  throw lastError;
+}
+
+/** Hide API keys, which providers put in the path or query */
+export function redactRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const hasSecret = parsed.pathname.length > 1 || parsed.search !== '' || parsed.username !== '';
+    return `${parsed.protocol}//${parsed.host}${hasSecret ? '/…' : ''}`;
+  } catch {
+    return '(invalid url)';
+  }
+}
+
+export interface RpcHealth {
+  url: string;
+  ok: boolean;
+  latencyMs: number;
+  /** Latest block number (EVM) or slot (Solana) */
+  head?: string;
+  error?: string;
+}
+
+async function probe(network: string, url: string): Promise<RpcHealth> {
+  const started = Date.now();
+  try {
+    const solana = getSolanaConfig(network);
+    let head: bigint;
+    if (solana) {
+      head = await createRpcClient(solana.caip2, url)
+        .getSlot()
+        .send({ abortSignal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+    } else {
+      const { chain } = getChainConfig(network)!;
+      const client = createPublicClient({ chain, transport: http(url, { timeout: HEALTH_TIMEOUT_MS, retryCount: 0 }) });
+      head = await client.getBlockNumber();
+    }
+    return { url: redactRpcUrl(url), ok: true, latencyMs: Date.now() - started, head: head.toString() };
+  } catch (err) {
+    return {
+      url: redactRpcUrl(url),
+      ok: false,
+      latencyMs: Date.now() - started,
+      error: err instanceof Error ? err.message.split('\n')[0] : String(err),
+    };
+  }
+}
+
+/** Probe every URL configured for a network in parallel */
+export function checkRpcHealth(network: string): Promise<RpcHealth[]> {
+  const caip2 = toCaip2(network);
+  return Promise.all(getRpcUrls(caip2).map((url) => probe(caip2, url)));
+}
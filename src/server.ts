@@ -5,25 +5,43 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { log } from './log';
+import { unlockWallet } from './keystore';
 import { registerAuthTools } from './tools/auth';
+import { registerConfigTools } from './tools/config';
 import { registerDiscoveryTools } from './tools/discovery';
+import { registerHistoryTools } from './tools/history';
 import { registerPaymentTools } from './tools/payment';
 import { registerWalletTools } from './tools/wallet';
 
 export async function startServer(): Promise<void> {
   log.info('Starting x402scan-mcp...');
 
-  const server = new McpServer({
-    name: 'x402scan',
-    version: '0.0.7',
-  });
+  const server = new McpServer(
+    {
+      name: 'x402scan',
+      version: '0.0.7',
+    },
+    // Streamed responses are forwarded as log messages when the client did not ask for progress
+    { capabilities: { logging: {} } }
+  );
 
   registerPaymentTools(server);
   registerAuthTools(server);
   registerWalletTools(server);
   registerDiscoveryTools(server);
-
-  log.info('Registered 6 tools: check_balance, query_endpoint, validate_payment, execute_call, authed_call, discover_resources');
+  registerHistoryTools(server);
+  registerConfigTools(server);
+
+  log.info(
+    'Registered 16 tools: check_balance, send_usdc, list_wallets, create_wallet, import_wallet, export_wallet, switch_wallet, query_endpoint, validate_payment, execute_call, recover_payment, authed_call, discover_resources, list_payments, spending_report, get_config'
+  );
+
+  // Unlock now so a passphrase prompt happens at startup rather than mid-call
+  try {
+    await unlockWallet();
+  } catch (err) {
+    log.error(`Wallet not unlocked: ${err instanceof Error ? err.message : String(err)}`);
+  }
 
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -0,0 +1,245 @@
+/**
+ * Settlement verification - confirms a reported settlement against the chain
+ *
+ * Fetches the transaction receipt and decodes the token's Transfer and
+ * EIP-3009 AuthorizationUsed logs instead of trusting the settlement header.
+ * Without a transaction hash, an authorization is looked up by its nonce.
+ */
+
+import { parseAbi, parseEventLogs, isAddressEqual, type Log } from 'viem';
+import { assetAmount, getChain, isSolanaNetwork, toCaip2 } from './networks';
+import { formatMoney } from './money';
+import { createEvmClient } from './rpc';
+import { log } from './log';
+
+const SETTLEMENT_EVENTS_ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce)',
+]);
+
+const AUTHORIZATION_STATE_ABI = parseAbi([
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+]);
+
+const RECEIPT_TIMEOUT_MS = 30_000;
+/** How far back to look for the transaction that used an authorization. Payments are minutes old at most */
+const AUTHORIZATION_LOOKBACK_BLOCKS = 2_000n;
+
+export interface SettlementExpectation {
+  /** Network of the requirement that was signed, not the one the server reported */
+  network: string;
+  transactionHash: string;
+  asset: string;
+  /** Raw token units */
+  amount: string;
+  payTo: string;
+  payer: string;
+  /** Nonce of the signed EIP-3009 authorization. Without one, no AuthorizationUsed event can match */
+  nonce?: string;
+  /** Network from the server's settlement header, which must agree with network */
+  reportedNetwork?: string;
+}
+
+export interface SettlementVerification {
+  verified: boolean;
+  status: 'success' | 'reverted' | 'not_found';
+  blockNumber?: string;
+  confirmations?: number;
+  transfer?: { from: string; to: string; value: string };
+  checks: {
+    transactionSucceeded: boolean;
+    amountMatches: boolean;
+    payToMatches: boolean;
+    payerMatches: boolean;
+    authorizationUsed: boolean;
+  };
+  errors: string[];
+}
+
+export type SettlementLogChecks = Omit<SettlementVerification['checks'], 'transactionSucceeded'>;
+
+function sameAddress(a: string, b: string): boolean {
+  try {
+    return isAddressEqual(a as `0x${string}`, b as `0x${string}`);
+  } catch {
+    return false;
+  }
+}
+
+/** Match a settlement transaction's logs against the signed payment: the asset's Transfer and the AuthorizationUsed of its nonce */
+export function checkSettlementLogs(
+  logs: Log[],
+  expected: Omit<SettlementExpectation, 'transactionHash' | 'reportedNetwork'>
+): { transfer?: { from: string; to: string; value: string }; checks: SettlementLogChecks; errors: string[] } {
+  const checks: SettlementLogChecks = {
+    amountMatches: false,
+    payToMatches: false,
+    payerMatches: false,
+    authorizationUsed: false,
+  };
+  const errors: string[] = [];
+
+  const assetLogs = logs.filter((l) => sameAddress(l.address, expected.asset));
+  const events = parseEventLogs({ abi: SETTLEMENT_EVENTS_ABI, logs: assetLogs });
+
+  // Prefer the transfer that matches on every field, otherwise report the closest one
+  const transfers = events.filter((e) => e.eventName === 'Transfer');
+  const transfer =
+    transfers.find(
+      (e) =>
+        sameAddress(e.args.from, expected.payer) &&
+        sameAddress(e.args.to, expected.payTo) &&
+        e.args.value === BigInt(expected.amount)
+    ) ??
+    transfers.find((e) => sameAddress(e.args.from, expected.payer)) ??
+    transfers[0];
+
+  if (transfer) {
+    checks.payerMatches = sameAddress(transfer.args.from, expected.payer);
+    checks.payToMatches = sameAddress(transfer.args.to, expected.payTo);
+    checks.amountMatches = transfer.args.value === BigInt(expected.amount);
+    if (!checks.payerMatches) errors.push(`Transfer sender ${transfer.args.from} is not the payer ${expected.payer}`);
+    if (!checks.payToMatches) errors.push(`Transfer recipient ${transfer.args.to} is not payTo ${expected.payTo}`);
+    if (!checks.amountMatches) {
+      const format = (raw: bigint | string) => formatMoney(assetAmount(expected.network, expected.asset, raw));
+      errors.push(`Transfer value ${format(transfer.args.value)} does not match amount ${format(expected.amount)}`);
+    }
+  } else {
+    errors.push(`No Transfer of asset ${expected.asset} found in transaction`);
+  }
+
+  const nonce = expected.nonce;
+  checks.authorizationUsed =
+    !!nonce &&
+    events.some(
+      (e) =>
+        e.eventName === 'AuthorizationUsed' &&
+        sameAddress(e.args.authorizer, expected.payer) &&
+        e.args.nonce.toLowerCase() === nonce.toLowerCase()
+    );
+  if (!checks.authorizationUsed) {
+    errors.push(
+      nonce
+        ? `No AuthorizationUsed event for the payer's nonce ${nonce} found in transaction`
+        : 'The payment has no authorization nonce to match an AuthorizationUsed event against'
+    );
+  }
+
+  return {
+    transfer: transfer && { from: transfer.args.from, to: transfer.args.to, value: transfer.args.value.toString() },
+    checks,
+    errors,
+  };
+}
+
+export async function verifySettlement(expected: SettlementExpectation): Promise<SettlementVerification> {
+  const caip2 = toCaip2(expected.network);
+  const chain = getChain(caip2);
+  if (!chain) {
+    throw new Error(
+      isSolanaNetwork(caip2)
+        ? 'On-chain settlement verification is only available on EVM networks'
+        : `Unsupported network: ${expected.network}`
+    );
+  }
+
+  log.debug(`Verifying settlement ${expected.transactionHash} on ${chain.name}`);
+  const client = createEvmClient(caip2);
+
+  let receipt;
+  try {
+    receipt = await client.waitForTransactionReceipt({
+      hash: expected.transactionHash as `0x${string}`,
+      timeout: RECEIPT_TIMEOUT_MS,
+    });
+  } catch (err) {
+    return {
+      verified: false,
+      status: 'not_found',
+      checks: {
+        transactionSucceeded: false,
+        amountMatches: false,
+        payToMatches: false,
+        payerMatches: false,
+        authorizationUsed: false,
+      },
+      errors: [`Transaction receipt not found: ${err instanceof Error ? err.message : String(err)}`],
+    };
+  }
+
+  const transactionSucceeded = receipt.status === 'success';
+  const { transfer, checks, errors } = checkSettlementLogs(receipt.logs, expected);
+  if (!transactionSucceeded) errors.unshift('Transaction reverted');
+  if (expected.reportedNetwork && toCaip2(expected.reportedNetwork) !== caip2) {
+    errors.push(`Settlement was reported on ${expected.reportedNetwork}, but the payment was signed for ${caip2}`);
+  }
+
+  const latestBlock = await client.getBlockNumber();
+
+  return {
+    verified: errors.length === 0,
+    status: receipt.status,
+    blockNumber: receipt.blockNumber.toString(),
+    confirmations: Number(latestBlock - receipt.blockNumber + 1n),
+    transfer,
+    checks: { transactionSucceeded, ...checks },
+    errors,
+  };
+}
+
+export interface AuthorizationQuery {
+  network: string;
+  /** Token contract the authorization was signed for */
+  asset: string;
+  authorizer: string;
+  nonce: string;
+}
+
+export interface AuthorizationState {
+  used: boolean;
+  /** Transaction that used it, when found in recent blocks */
+  transactionHash?: string;
+}
+
+/**
+ * Whether an EIP-3009 authorization has been used, read from the token's authorizationState.
+ * A used authorization means the transfer went through; its transaction is looked up best-effort.
+ */
+export async function checkAuthorization(query: AuthorizationQuery): Promise<AuthorizationState> {
+  const caip2 = toCaip2(query.network);
+  if (!getChain(caip2)) {
+    throw new Error(
+      isSolanaNetwork(caip2)
+        ? 'Authorization lookup is only available on EVM networks'
+        : `Unsupported network: ${query.network}`
+    );
+  }
+
+  const client = createEvmClient(caip2);
+  const asset = query.asset as `0x${string}`;
+  const authorizer = query.authorizer as `0x${string}`;
+  const nonce = query.nonce as `0x${string}`;
+
+  const used = await client.readContract({
+    address: asset,
+    abi: AUTHORIZATION_STATE_ABI,
+    functionName: 'authorizationState',
+    args: [authorizer, nonce],
+  });
+  if (!used) return { used };
+
+  try {
+    const latest = await client.getBlockNumber();
+    const logs = await client.getLogs({
+      address: asset,
+      event: SETTLEMENT_EVENTS_ABI[1],
+      args: { authorizer, nonce },
+      fromBlock: latest > AUTHORIZATION_LOOKBACK_BLOCKS ? latest - AUTHORIZATION_LOOKBACK_BLOCKS : 0n,
+      toBlock: latest,
+    });
+    return { used, transactionHash: logs.at(-1)?.transactionHash ?? undefined };
+  } catch (err) {
+    log.debug(`Could not find the transaction for nonce ${query.nonce}: ${err instanceof Error ? err.message : String(err)}`);
+    return { used };
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Solana keys - ed25519 keypairs that sit next to each EVM key
+ *
+ * Mnemonic wallets derive theirs at m/44'/501'/i'/0' (see mnemonic.ts).
+ * Raw private key wallets have no phrase to derive from, so their Solana seed is
+ * HKDF-SHA256 of the EVM key: backing up the EVM key backs up both.
+ */
+
+import { hkdfSync } from 'crypto';
+import nacl from 'tweetnacl';
+import { base58 } from '@scure/base';
+import { hexToBytes } from 'viem';
+import { createKeyPairSignerFromBytes, type KeyPairSigner } from '@solana/kit';
+
+const EVM_KEY_HKDF_INFO = 'x402scan-mcp solana ed25519 seed';
+
+/** Satisfies the vendored SIWX SolanaSigner */
+export interface SolanaKeypair {
+  /** Base58 public key, which is also the address */
+  publicKey: string;
+  /** 64-byte secret key (seed + public key), as used by Solana CLI and wallets */
+  secretKey: Uint8Array;
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>;
+}
+
+export function solanaKeypairFromSeed(seed: Uint8Array): SolanaKeypair {
+  const { publicKey, secretKey } = nacl.sign.keyPair.fromSeed(seed);
+  return {
+    publicKey: base58.encode(publicKey),
+    secretKey,
+    signMessage: async (message) => nacl.sign.detached(message, secretKey),
+  };
+}
+
+/** Keypair from a base58 64-byte secret key (Phantom/Solflare export format) */
+export function solanaKeypairFromSecretKey(secretKey: string): SolanaKeypair {
+  let bytes: Uint8Array;
+  try {
+    bytes = base58.decode(secretKey.trim());
+  } catch {
+    throw new Error('Solana secret key must be base58');
+  }
+  if (bytes.length !== 64) {
+    throw new Error(`Solana secret key must be 64 bytes, got ${bytes.length}`);
+  }
+  return solanaKeypairFromSeed(bytes.subarray(0, 32));
+}
+
+/** Deterministic Solana seed for a wallet that only has an EVM private key */
+export function solanaSeedFromEvmKey(privateKey: `0x${string}`): Uint8Array {
+  return new Uint8Array(hkdfSync('sha256', hexToBytes(privateKey), new Uint8Array(0), EVM_KEY_HKDF_INFO, 32));
+}
+
+export function encodeSolanaSecretKey(keypair: SolanaKeypair): string {
+  return base58.encode(keypair.secretKey);
+}
+
+/** Transaction signer for exact-scheme SVM payments */
+export function toTransactionSigner(keypair: SolanaKeypair): Promise<KeyPairSigner> {
+  return createKeyPairSignerFromBytes(keypair.secretKey);
+}
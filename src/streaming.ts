@@ -0,0 +1,166 @@
+/**
+ * Streamed response bodies - Server-Sent Events and NDJSON
+ *
+ * Read incrementally so each chunk can be forwarded while the stream is open,
+ * then assembled into one result: every chunk, plus the concatenated text when
+ * the chunks carry text deltas (plain strings or OpenAI/Anthropic-style deltas).
+ */
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+export interface StreamChunk {
+  index: number;
+  /** SSE event name, when not the default "message" */
+  event?: string;
+  /** SSE event id */
+  id?: string;
+  /** Parsed JSON, or the raw string when it is not JSON */
+  data: unknown;
+}
+
+export interface StreamedBody {
+  format: StreamFormat;
+  chunks: StreamChunk[];
+  /** Concatenated text deltas. Unset when no chunk carried text */
+  text?: string;
+  /** Set when the stream broke off. Chunks received before that are kept */
+  error?: string;
+}
+
+export type StreamChunkHandler = (chunk: StreamChunk) => void;
+
+const NDJSON_TYPES = ['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/x-jsonlines'];
+
+/** Sentinel some LLM APIs send as the last SSE event */
+const DONE = '[DONE]';
+
+export function streamFormat(type: string): StreamFormat | undefined {
+  if (type === 'text/event-stream') return 'sse';
+  if (NDJSON_TYPES.includes(type)) return 'ndjson';
+  return undefined;
+}
+
+function parseData(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/** Text carried by a chunk: a plain string, or a delta from an LLM streaming API */
+export function chunkText(data: unknown): string | undefined {
+  if (typeof data === 'string') return data;
+  if (!data || typeof data !== 'object') return undefined;
+  const chunk = data as {
+    choices?: { delta?: { content?: unknown }; text?: unknown }[];
+    delta?: { text?: unknown };
+    text?: unknown;
+  };
+  const candidates = [chunk.choices?.[0]?.delta?.content, chunk.choices?.[0]?.text, chunk.delta?.text, chunk.text];
+  const text = candidates.find((c) => typeof c === 'string');
+  return text as string | undefined;
+}
+
+/** Lines of a body. Throws, cancelling the rest, once more than maxBytes have arrived */
+async function* lines(body: ReadableStream<Uint8Array>, maxBytes: number): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+  let size = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      size += value?.byteLength ?? 0;
+      if (size > maxBytes) {
+        await reader.cancel().catch(() => {});
+        throw new Error(`stream is larger than the ${maxBytes} byte limit`);
+      }
+      buffer += decoder.decode(value, { stream: !done });
+      // A trailing \r may be the first half of \r\n, so it waits for the next read
+      const complete = !done && buffer.endsWith('\r') ? buffer.slice(0, -1) : buffer;
+      const parts = complete.split(/\r\n|\r|\n/);
+      buffer = done ? '' : parts.pop()! + buffer.slice(complete.length);
+      yield* parts;
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** SSE per the WHATWG event stream format: data lines joined by \n, dispatched on a blank line */
+async function* sseEvents(
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number
+): AsyncGenerator<Omit<StreamChunk, 'index'>> {
+  let data: string[] = [];
+  let event: string | undefined;
+  let id: string | undefined;
+
+  for await (const line of lines(body, maxBytes)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield { ...(event && event !== 'message' && { event }), ...(id && { id }), data: data.join('\n') };
+      }
+      data = [];
+      event = undefined;
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'data') data.push(value);
+    else if (field === 'event') event = value;
+    else if (field === 'id') id = value;
+  }
+
+  // A stream that ends without the final blank line still delivers its last event
+  if (data.length > 0) yield { ...(event && event !== 'message' && { event }), ...(id && { id }), data: data.join('\n') };
+}
+
+async function* ndjsonEvents(
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number
+): AsyncGenerator<Omit<StreamChunk, 'index'>> {
+  for await (const line of lines(body, maxBytes)) {
+    if (line.trim()) yield { data: line };
+  }
+}
+
+/**
+ * Consume a streamed body, calling onChunk as each chunk arrives.
+ * The payment has usually settled by now, so a broken stream, or one that passes maxBytes,
+ * returns what arrived instead of throwing.
+ */
+export async function readStream(
+  response: Response,
+  format: StreamFormat,
+  onChunk?: StreamChunkHandler,
+  maxBytes: number = Infinity
+): Promise<StreamedBody> {
+  const chunks: StreamChunk[] = [];
+  let text: string | undefined;
+  if (!response.body) return { format, chunks };
+
+  let error: string | undefined;
+  const events = format === 'sse' ? sseEvents(response.body, maxBytes) : ndjsonEvents(response.body, maxBytes);
+  try {
+    for await (const event of events) {
+      if (event.data === DONE) continue;
+
+      const chunk: StreamChunk = { index: chunks.length, ...event, data: parseData(event.data as string) };
+      chunks.push(chunk);
+
+      const delta = chunkText(chunk.data);
+      if (delta !== undefined) text = (text ?? '') + delta;
+      onChunk?.(chunk);
+    }
+  } catch (err) {
+    error = `Stream ended early: ${err instanceof Error ? err.message : String(err)}`;
+  }
+
+  return { format, chunks, ...(text !== undefined && { text }), ...(error && { error }) };
+}
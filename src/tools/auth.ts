@@ -4,10 +4,14 @@
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { mcpSuccess, mcpError } from '../response';
+import { mcpSuccess, mcpSuccessWithFile, mcpError } from '../response';
+import { readErrorText, readResponseBody } from '../downloads';
+import { BODY_TYPES, BODY_TYPE_DESCRIPTION, contentTypeHeader, encodeBody } from '../request-body';
 import { getWallet, getClientIdentifierHeaders } from '../keystore';
 import { getParseClient } from '../x402/client';
 import { normalizePaymentRequired } from '../x402/protocol';
+import { evaluatePolicy, policyFailures } from '../policy';
+import { uploadConfirmation } from '../approval';
 import {
   createSIWxPayload,
   encodeSIWxHeader,
@@ -24,24 +28,32 @@ export function registerAuthTools(server: McpServer): void {
         url: z.string().url().describe('The SIWX-protected endpoint URL'),
         method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']).default('GET').describe('HTTP method'),
         body: z.unknown().optional().describe('Request body for POST/PUT/PATCH methods'),
+        bodyType: z.enum(BODY_TYPES).default('json').describe(BODY_TYPE_DESCRIPTION),
         headers: z.record(z.string()).optional().describe('Additional headers to include'),
+        wallet: z.string().optional().describe('Named wallet to sign with. Defaults to the active wallet'),
       },
     },
-    async ({ url, method, body, headers = {} }) => {
+    async ({ url, method, body, bodyType, headers = {}, wallet }) => {
       try {
-        const { account, address } = await getWallet();
+        const originFailures = policyFailures(evaluatePolicy({ url }));
+        if (originFailures.length > 0) {
+          return mcpError('Blocked by payment policy', { url, failures: originFailures });
+        }
+
+        const { account, address, solana } = await getWallet(wallet);
         const httpClient = getParseClient();
-        const clientIdentifierHeaders = await getClientIdentifierHeaders();
+        const clientIdentifierHeaders = await getClientIdentifierHeaders(address);
+        const encoded = await encodeBody(body, bodyType, { confirmUploads: uploadConfirmation(server, url) });
 
         // Step 1: Make initial request
         const firstResponse = await fetch(url, {
           method,
           headers: {
-            'Content-Type': 'application/json',
+            ...contentTypeHeader(encoded),
             ...clientIdentifierHeaders,
             ...headers,
           },
-          body: body ? JSON.stringify(body) : undefined,
+          body: encoded.body,
         });
 
         // If not 402, return the response directly
@@ -49,25 +61,17 @@ export function registerAuthTools(server: McpServer): void {
           const responseHeaders = Object.fromEntries(firstResponse.headers.entries());
 
           if (firstResponse.ok) {
-            let data: unknown;
-            const contentType = firstResponse.headers.get('content-type');
-            if (contentType?.includes('application/json')) {
-              data = await firstResponse.json();
-            } else {
-              data = await firstResponse.text();
-            }
-            return mcpSuccess({
-              statusCode: firstResponse.status,
-              headers: responseHeaders,
-              data,
-            });
+            const { data, file } = await readResponseBody(firstResponse, url);
+            const response = { statusCode: firstResponse.status, headers: responseHeaders, data, file };
+            return file ? mcpSuccessWithFile(response, file) : mcpSuccess(response);
           }
 
+          const errorText = await readErrorText(firstResponse);
           let errorBody: unknown;
           try {
-            errorBody = await firstResponse.json();
+            errorBody = JSON.parse(errorText);
           } catch {
-            errorBody = await firstResponse.text();
+            errorBody = errorText;
           }
           return mcpError(`HTTP ${firstResponse.status}`, {
             statusCode: firstResponse.status,
@@ -118,66 +122,60 @@ export function registerAuthTools(server: McpServer): void {
           });
         }
 
-        // Step 4: Check for unsupported chain types
-        if (serverInfo.chainId.startsWith('solana:')) {
-          return mcpError('Solana authentication not supported', {
-            chainId: serverInfo.chainId,
-            hint: 'This endpoint requires a Solana wallet. The MCP server currently only supports EVM wallets.',
-          });
-        }
+        // Step 4: Pick the key for the challenge's chain (SIWE for eip155, SIWS for solana)
+        const isSolana = serverInfo.chainId.startsWith('solana:');
+        const authAddress = isSolana ? solana.publicKey : address;
 
         // Step 5: Create signed proof using server-provided challenge
-        const payload = await createSIWxPayload(serverInfo, account);
+        const payload = await createSIWxPayload(serverInfo, isSolana ? solana : account);
         const siwxHeader = encodeSIWxHeader(payload);
 
         // Step 6: Retry with SIGN-IN-WITH-X header
         const authedResponse = await fetch(url, {
           method,
           headers: {
-            'Content-Type': 'application/json',
+            ...contentTypeHeader(encoded),
             ...clientIdentifierHeaders,
             'SIGN-IN-WITH-X': siwxHeader,
             ...headers,
           },
-          body: body ? JSON.stringify(body) : undefined,
+          body: encoded.body,
+          // Following a redirect would forward the signed proof past the origin policy
+          redirect: 'manual',
         });
 
         const responseHeaders = Object.fromEntries(authedResponse.headers.entries());
 
         if (!authedResponse.ok) {
+          const errorText = await readErrorText(authedResponse);
           let errorBody: unknown;
           try {
-            errorBody = await authedResponse.json();
+            errorBody = JSON.parse(errorText);
           } catch {
-            errorBody = await authedResponse.text();
+            errorBody = errorText;
           }
           return mcpError(`HTTP ${authedResponse.status} after authentication`, {
             statusCode: authedResponse.status,
             headers: responseHeaders,
             body: errorBody,
-            authAddress: address,
+            authAddress,
           });
         }
 
-        // Parse successful response
-        let data: unknown;
-        const contentType = authedResponse.headers.get('content-type');
-        if (contentType?.includes('application/json')) {
-          data = await authedResponse.json();
-        } else {
-          data = await authedResponse.text();
-        }
-
-        return mcpSuccess({
+        // Parse successful response. Binary bodies are saved to disk
+        const { data, file } = await readResponseBody(authedResponse, url);
+        const response = {
           statusCode: authedResponse.status,
           headers: responseHeaders,
           data,
+          file,
           authentication: {
-            address,
+            address: authAddress,
             domain: serverInfo.domain,
             chainId: serverInfo.chainId,
           },
-        });
+        };
+        return file ? mcpSuccessWithFile(response, file) : mcpSuccess(response);
       } catch (err) {
         return mcpError(err, { tool: 'authed_call', url });
       }
@@ -0,0 +1,88 @@
+/**
+ * Config tool - show the effective configuration
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mcpSuccess, mcpError } from '../response';
+import {
+  configFiles,
+  dataDir,
+  getConfig,
+  getPolicies,
+  ignoredProjectKeys,
+  isDebug,
+  loadedConfigFiles,
+  DEFAULT_DOH_URL,
+} from '../config';
+import { getChainName, getDefaultNetwork, getTokens, listNetworks } from '../networks';
+import { redactRpcUrl, resolveRpcUrls } from '../rpc';
+import { DEFAULT_CACHE_TTL_SECONDS } from '../cache';
+import { DEFAULT_TIMEOUTS } from '../x402/retry';
+
+const SECRET_ENV_VARS = ['X402_PRIVATE_KEY', 'X402_SOLANA_PRIVATE_KEY', 'X402_KEYSTORE_PASSPHRASE'];
+
+/** X402_* variables that are set. Keys and passphrases only show as set; RPC URLs lose their path */
+function environment(): Record<string, string> {
+  const vars = Object.entries(process.env)
+    .filter(([name, value]) => name.startsWith('X402_') && value)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return Object.fromEntries(
+    vars.map(([name, value]) => {
+      if (SECRET_ENV_VARS.includes(name)) return [name, '(set, redacted)'];
+      if (name.startsWith('X402_RPC_')) return [name, value!.split(',').map((url) => redactRpcUrl(url.trim())).join(',')];
+      return [name, value!];
+    })
+  );
+}
+
+function effectiveRpc(): Record<string, { source: string; urls: string[] }> {
+  return Object.fromEntries(
+    listNetworks().map((network) => {
+      const { source, urls } = resolveRpcUrls(network);
+      return [network, { source, urls: urls.map(redactRpcUrl) }];
+    })
+  );
+}
+
+export function registerConfigTools(server: McpServer): void {
+  server.registerTool(
+    'get_config',
+    {
+      description:
+        'Show the effective configuration: global and project config files merged, env overrides and defaults applied. Secrets are redacted.',
+    },
+    async () => {
+      try {
+        const config = getConfig();
+        return mcpSuccess({
+          files: {
+            searched: configFiles(),
+            loaded: loadedConfigFiles(),
+            ...(ignoredProjectKeys().length > 0 && { ignoredProjectKeys: ignoredProjectKeys() }),
+          },
+          effective: {
+            defaultNetwork: getDefaultNetwork(),
+            dataDir: dataDir(),
+            debug: isDebug(),
+            dryRun: process.env.X402_DRY_RUN === 'true',
+            budgets: config.budgets ?? {},
+            approval: config.approval ?? {},
+            policies: getPolicies(),
+            verifySettlement: config.verifySettlement ?? false,
+            keystore: { encrypt: !!process.env.X402_KEYSTORE_PASSPHRASE || config.keystore?.encrypt === true },
+            cache: { ttlSeconds: config.cache?.ttlSeconds ?? DEFAULT_CACHE_TTL_SECONDS },
+            timeouts: { ...DEFAULT_TIMEOUTS, ...config.timeouts },
+            networks: listNetworks().map((network) => ({ network, name: getChainName(network) })),
+            tokens: getTokens(),
+            rpc: effectiveRpc(),
+            discovery: { dohUrl: config.discovery?.dohUrl ?? DEFAULT_DOH_URL },
+          },
+          env: environment(),
+        });
+      } catch (err) {
+        return mcpError(err, { tool: 'get_config' });
+      }
+    }
+  );
+}
@@ -5,10 +5,12 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { log } from "../log";
-import { mcpError, mcpSuccess, formatUSDC } from "../response";
+import { mcpError, mcpSuccess } from "../response";
+import { formatMoney } from "../money";
 import { queryEndpoint } from "../x402/client";
-import { getChainName } from "../networks";
+import { assetAmount, getChainName } from "../networks";
 import { getClientIdentifierHeaders } from "../keystore";
+import { DEFAULT_DOH_URL, getConfig } from "../config";
 
 // Discovery document schema per spec
 const DiscoveryDocumentSchema = z.object({
@@ -85,11 +87,12 @@ async function lookupDnsTxtRecord(hostname: string): Promise<string | null> {
   const clientIdentifierHeaders = await getClientIdentifierHeaders();
 
   try {
-    // Use Cloudflare DNS-over-HTTPS
+    // DNS-over-HTTPS JSON API (Cloudflare unless discovery.dohUrl is set)
+    const dohUrl = new URL(getConfig().discovery?.dohUrl ?? DEFAULT_DOH_URL);
+    dohUrl.searchParams.set("name", dnsQuery);
+    dohUrl.searchParams.set("type", "TXT");
     const response = await fetch(
-      `https://cloudflare-dns.com/dns-query?name=${encodeURIComponent(
-        dnsQuery,
-      )}&type=TXT`,
+      dohUrl,
       {
         headers: { Accept: "application/dns-json", ...clientIdentifierHeaders },
       },
@@ -333,7 +336,7 @@ async function queryResource(url: string): Promise<DiscoveredResource> {
       url,
       isX402Endpoint: true,
       x402Version: pr.x402Version,
-      price: formatUSDC(BigInt(firstReq.amount)),
+      price: formatMoney(assetAmount(firstReq.network, firstReq.asset, firstReq.amount)),
       priceRaw: firstReq.amount,
       network: firstReq.network,
       networkName: getChainName(firstReq.network),
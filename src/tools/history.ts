@@ -0,0 +1,154 @@
+/**
+ * History tools - query the local payment ledger
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { mcpSuccess, mcpError } from '../response';
+import { amountFields, money } from '../money';
+import {
+  readLedger,
+  filterLedger,
+  summarizeLedger,
+  ledgerToCsv,
+  entryOrigin,
+  ledgerPath,
+  type LedgerEntry,
+  type LedgerFilter,
+  type SpendingTotals,
+} from '../ledger';
+import { assetAmount, getChainName, toCaip2 } from '../networks';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const FilterSchema = {
+  from: z.string().optional().describe('Start date, inclusive (ISO 8601, e.g. "2025-06-01")'),
+  to: z.string().optional().describe('End date, inclusive (ISO 8601, e.g. "2025-06-30")'),
+  origin: z.string().optional().describe('Only payments to this origin ("https://api.example.com") or hostname'),
+  network: z.string().optional().describe('Only payments on this network (CAIP-2 or v1 name, e.g. "base")'),
+  status: z.enum(['settled', 'unconfirmed']).optional().describe('Only payments with this status'),
+};
+
+/** Parse a date bound. Date-only upper bounds cover the whole day (UTC). */
+function parseDateBound(value: string, bound: 'from' | 'to'): Date {
+  const date = new Date(DATE_ONLY.test(value) && bound === 'to' ? `${value}T23:59:59.999Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid "${bound}" date: ${value}`);
+  }
+  return date;
+}
+
+function toFilter(input: { from?: string; to?: string; origin?: string; network?: string; status?: LedgerEntry['status'] }): LedgerFilter {
+  return {
+    from: input.from ? parseDateBound(input.from, 'from') : undefined,
+    to: input.to ? parseDateBound(input.to, 'to') : undefined,
+    origin: input.origin,
+    network: input.network,
+    status: input.status,
+  };
+}
+
+/** USDC is totalled in USD. Other assets get a total each, in their own units (raw units when unregistered) */
+function formatTotals(totals: SpendingTotals) {
+  const others = Object.values(totals.otherAssets);
+  return {
+    count: totals.count,
+    ...amountFields('total', money(totals.total)),
+    ...(others.length > 0 && {
+      otherAssets: others.map(({ network, asset, count, total }) => ({
+        network,
+        asset,
+        count,
+        ...amountFields('total', assetAmount(network, asset, total)),
+      })),
+    }),
+  };
+}
+
+function formatEntry(entry: LedgerEntry) {
+  return {
+    timestamp: entry.timestamp,
+    url: entry.url,
+    origin: entryOrigin(entry),
+    method: entry.method,
+    ...amountFields('amount', assetAmount(entry.network, entry.asset, entry.amount)),
+    asset: entry.asset,
+    network: toCaip2(entry.network),
+    networkName: getChainName(entry.network),
+    payTo: entry.payTo,
+    payer: entry.payer,
+    transactionHash: entry.transactionHash,
+    status: entry.status,
+  };
+}
+
+export function registerHistoryTools(server: McpServer): void {
+  // list_payments - browse ledger entries
+  server.registerTool(
+    'list_payments',
+    {
+      description: 'List payments recorded in the local ledger, newest first. Filter by date range, origin, network and status.',
+      inputSchema: {
+        ...FilterSchema,
+        limit: z.number().int().min(1).max(1000).default(50).describe('Max payments to return (default: 50)'),
+      },
+    },
+    async ({ limit, ...filterInput }) => {
+      try {
+        const entries = filterLedger(await readLedger(), toFilter(filterInput)).reverse();
+        const { count, total, otherAssets } = summarizeLedger(entries);
+
+        return mcpSuccess({
+          ...formatTotals({ count, total, otherAssets }),
+          returned: Math.min(limit, entries.length),
+          payments: entries.slice(0, limit).map(formatEntry),
+          ledgerFile: ledgerPath(),
+        });
+      } catch (err) {
+        return mcpError(err, { tool: 'list_payments' });
+      }
+    }
+  );
+
+  // spending_report - totals and breakdowns, with optional export
+  server.registerTool(
+    'spending_report',
+    {
+      description: 'Summarize spending from the local ledger: totals plus per-origin and per-network breakdowns. Optionally export matching payments as CSV or JSON.',
+      inputSchema: {
+        ...FilterSchema,
+        format: z.enum(['csv', 'json']).optional().describe('Include an export of all matching payments in this format'),
+      },
+    },
+    async ({ format, ...filterInput }) => {
+      try {
+        const entries = filterLedger(await readLedger(), toFilter(filterInput));
+        const summary = summarizeLedger(entries);
+
+        const response: Record<string, unknown> = {
+          period: { from: filterInput.from ?? null, to: filterInput.to ?? null },
+          ...formatTotals(summary),
+          byOrigin: Object.fromEntries(
+            Object.entries(summary.byOrigin).map(([origin, totals]) => [origin, formatTotals(totals)])
+          ),
+          byNetwork: Object.fromEntries(
+            Object.entries(summary.byNetwork).map(([network, totals]) => [
+              network,
+              { networkName: getChainName(network), ...formatTotals(totals) },
+            ])
+          ),
+        };
+
+        if (format === 'csv') {
+          response.export = { format, content: ledgerToCsv(entries) };
+        } else if (format === 'json') {
+          response.export = { format, content: entries.map(formatEntry) };
+        }
+
+        return mcpSuccess(response);
+      } catch (err) {
+        return mcpError(err, { tool: 'spending_report' });
+      }
+    }
+  );
+}
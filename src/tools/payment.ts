@@ -3,13 +3,46 @@
  */
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { PaymentPolicy } from '@x402/core/client';
 import { z } from 'zod';
-import { mcpSuccess, mcpError, formatUSDC } from '../response';
-import { getWallet, walletExists } from '../keystore';
-import { createClient, makeRequest, queryEndpoint, type QueryResult } from '../x402/client';
-import { extractV1Schema } from '../x402/protocol';
-import { getChainConfig, getChainName, toCaip2 } from '../networks';
+import { mcpSuccess, mcpSuccessWithFile, mcpError } from '../response';
+import { amountFields, formatMoney, formatUSDC, money, parseAmountLimit } from '../money';
+import { addressForNetwork, getWallet, walletExists } from '../keystore';
+import {
+  createClient,
+  makeRequest,
+  queryEndpoint,
+  resubmitPayment,
+  PaymentRefusedError,
+  type PaymentGuard,
+  type QueryResult,
+  type RequestResult,
+} from '../x402/client';
+import { getKeptPayment, listKeptPayments } from '../x402/recovery';
+import { extractV1Schema, type NormalizedRequirement } from '../x402/protocol';
+import {
+  describeOption,
+  pricesComparable,
+  selectRequirements,
+  SELECTION_STRATEGIES,
+  type RequirementOption,
+  type SelectionStrategy,
+} from '../x402/selection';
+import { assetAmount, getChainName, getDefaultNetwork, getToken, getUSDCAddress, isSupportedNetwork, toCaip2 } from '../networks';
+import { toTransactionSigner } from '../solana';
 import { getUSDCBalance, hasSufficientBalance } from '../balance';
+import { reserveBudget, type BudgetViolation } from '../budget';
+import { approvalGuard, needsApproval, uploadConfirmation } from '../approval';
+import { evaluatePolicy, policyFailures } from '../policy';
+import { recordPayment } from '../ledger';
+import { verifySettlement } from '../settlement';
+import { getConfig } from '../config';
+import { DEFAULT_CACHE_TTL_SECONDS } from '../cache';
+import { log } from '../log';
+import { chunkText, type StreamChunk } from '../streaming';
+import { BODY_TYPES, BODY_TYPE_DESCRIPTION } from '../request-body';
 
 // Schema accepts both v1 (maxAmountRequired) and v2 (amount) field names
 const PaymentRequirementsSchema = z
@@ -31,6 +64,126 @@ const PaymentRequirementsSchema = z
     amount: data.amount ?? data.maxAmountRequired!,
   }));
 
+/** Drop requirements whose payTo, network or asset break the payment policy */
+const enforcePolicy: PaymentPolicy = (_version, requirements) => {
+  const allowed = requirements.filter(
+    (req) => policyFailures(evaluatePolicy({ network: req.network, payTo: req.payTo, asset: req.asset })).length === 0
+  );
+  if (allowed.length > 0) return allowed;
+
+  throw new PaymentRefusedError('policy_denied', 'No payment option is allowed by the payment policy', {
+    rejected: requirements.map((req) => ({
+      network: req.network,
+      payTo: req.payTo,
+      asset: req.asset,
+      failures: policyFailures(evaluatePolicy({ network: req.network, payTo: req.payTo, asset: req.asset })),
+    })),
+  });
+};
+
+/**
+ * Refuse payments that would push spending over a configured budget. A payment that fits holds
+ * its amount against the budget until release(), called once its outcome is in the ledger
+ */
+function budgetGuard(): { guard: PaymentGuard; release: () => void } {
+  let release = () => {};
+  const guard: PaymentGuard = async (requirement) => {
+    const check = await reserveBudget(assetAmount(requirement.network, requirement.asset, requirement.amount));
+    release = check.release;
+    if (check.violation) throwBudgetViolation(check.violation);
+  };
+  return { guard, release: () => release() };
+}
+
+function throwBudgetViolation(violation: BudgetViolation): never {
+  const used = violation.spent + violation.reserved;
+  const remaining = violation.limit > used ? violation.limit - used : 0n;
+  const payment = formatMoney(violation.amount);
+  const budget = `${violation.window} budget of ${formatUSDC(violation.limit)}`;
+  throw new PaymentRefusedError(
+    'budget_exceeded',
+    violation.notUsdc
+      ? `Payment of ${payment} is not in USDC, so it cannot be counted against the ${budget}`
+      : `Payment of ${payment} would exceed the ${budget}`,
+    {
+      window: violation.window,
+      ...amountFields('limit', money(violation.limit)),
+      ...amountFields('spent', money(violation.spent)),
+      ...amountFields('reserved', money(violation.reserved)),
+      ...amountFields('remaining', money(remaining)),
+      ...amountFields('amount', violation.amount),
+    }
+  );
+}
+
+/**
+ * Forward streamed chunks to the MCP client: as progress notifications when the call
+ * carried a progress token, as log messages otherwise
+ */
+function streamForwarder(
+  server: McpServer,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): (chunk: StreamChunk) => void {
+  const progressToken = extra._meta?.progressToken;
+  return (chunk) => {
+    const sent =
+      progressToken !== undefined
+        ? extra.sendNotification({
+            method: 'notifications/progress',
+            params: {
+              progressToken,
+              progress: chunk.index + 1,
+              message: chunkText(chunk.data) ?? JSON.stringify(chunk.data),
+            },
+          })
+        : server.server.sendLoggingMessage({ level: 'info', logger: 'execute_call', data: chunk }, extra.sessionId);
+    sent.catch((err) => log.debug(`Failed to forward stream chunk: ${err instanceof Error ? err.message : String(err)}`));
+  };
+}
+
+/** Record a paid request in the ledger once funds moved, or may have without a settlement header */
+async function recordResult(url: string, method: string, result: RequestResult, payer: string): Promise<void> {
+  const { requirement, settlement, recovery } = result;
+  if (!requirement || !(result.success || settlement || recovery?.fundsMoved)) return;
+  try {
+    await recordPayment({
+      timestamp: new Date().toISOString(),
+      url,
+      method,
+      amount: requirement.amount,
+      asset: requirement.asset,
+      network: toCaip2(requirement.network),
+      payTo: requirement.payTo,
+      payer,
+      transactionHash: settlement?.transactionHash ?? recovery?.transactionHash,
+      status: settlement || recovery?.fundsMoved ? 'settled' : 'unconfirmed',
+    });
+  } catch (err) {
+    log.error(`Failed to record payment in ledger: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Options considered for the payment, in ranked order, and which one was signed */
+function selectionSummary(
+  strategy: SelectionStrategy,
+  network: string | undefined,
+  ranked: RequirementOption[],
+  requirement: NormalizedRequirement | undefined
+): Record<string, unknown> {
+  const comparable = pricesComparable(ranked.map((option) => option.price));
+  return {
+    strategy,
+    ...(network && { network: toCaip2(network) }),
+    ...(requirement && { selected: { network: toCaip2(requirement.network), asset: requirement.asset } }),
+    ...(strategy === 'cheapest' &&
+      !comparable && {
+        pricesComparable: false,
+        note: 'Options are in different assets, so they were not ranked by price',
+      }),
+    options: ranked.map(describeOption),
+  };
+}
+
 export function registerPaymentTools(server: McpServer): void {
   // query_endpoint - probe for pricing without payment
   server.registerTool(
@@ -41,11 +194,27 @@ export function registerPaymentTools(server: McpServer): void {
         url: z.string().url().describe('The endpoint URL to probe'),
         method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']).default('GET'),
         body: z.unknown().optional().describe('Request body for POST/PUT/PATCH'),
+        bodyType: z.enum(BODY_TYPES).default('json').describe(BODY_TYPE_DESCRIPTION),
       },
     },
-    async ({ url, method, body }) => {
+    async ({ url, method, body, bodyType }, extra) => {
       try {
-        const result = await queryEndpoint(url, { method, body });
+        // Probing pays nothing, but a body (possibly a local file) still leaves the machine
+        if (body !== undefined) {
+          const originFailures = policyFailures(evaluatePolicy({ url }));
+          if (originFailures.length > 0) {
+            return mcpError('Blocked by payment policy', { url, failures: originFailures });
+          }
+        }
+
+        const result = await queryEndpoint(url, {
+          method,
+          body,
+          bodyType,
+          confirmUploads: uploadConfirmation(server, url),
+          signal: extra.signal,
+          timeouts: getConfig().timeouts,
+        });
 
         if (!result.success) {
           return mcpError(result.error || 'Failed to query endpoint', {
@@ -70,8 +239,7 @@ export function registerPaymentTools(server: McpServer): void {
           scheme: req.scheme,
           network: req.network,
           networkName: getChainName(req.network),
-          price: formatUSDC(BigInt(req.amount)),
-          priceRaw: req.amount,
+          ...amountFields('price', assetAmount(req.network, req.asset, req.amount)),
           asset: req.asset,
           payTo: req.payTo,
           maxTimeoutSeconds: req.maxTimeoutSeconds,
@@ -140,12 +308,13 @@ export function registerPaymentTools(server: McpServer): void {
   server.registerTool(
     'validate_payment',
     {
-      description: 'Pre-flight check if a payment would succeed. Validates wallet, network, and balance.',
+      description: 'Pre-flight check if a payment would succeed. Validates wallet, network, balance, and payment policy rules.',
       inputSchema: {
         requirements: PaymentRequirementsSchema.describe('Payment requirements from query_endpoint'),
+        url: z.string().url().optional().describe('Endpoint URL, to check origin rules of the payment policy'),
       },
     },
-    async ({ requirements }) => {
+    async ({ requirements, url }) => {
       try {
         const errors: string[] = [];
         const warnings: string[] = [];
@@ -160,9 +329,9 @@ export function registerPaymentTools(server: McpServer): void {
 
         // Check network support
         const caip2 = toCaip2(requirements.network);
-        const chainConfig = getChainConfig(caip2);
-        checks.networkSupported = !!chainConfig;
-        if (!chainConfig) {
+        const networkSupported = isSupportedNetwork(caip2);
+        checks.networkSupported = networkSupported;
+        if (!networkSupported) {
           errors.push(`Network not supported: ${requirements.network}`);
         }
 
@@ -172,23 +341,53 @@ export function registerPaymentTools(server: McpServer): void {
           errors.push(`Scheme not supported: ${requirements.scheme}. Only 'exact' is supported.`);
         }
 
+        // Check payment policy
+        const policy = evaluatePolicy({
+          url,
+          network: requirements.network,
+          payTo: requirements.payTo,
+          asset: requirements.asset,
+        });
+        checks.policyAllowed = policyFailures(policy).length === 0;
+        for (const failure of policyFailures(policy)) {
+          errors.push(`Payment policy: ${failure.message}`);
+        }
+
         // Can't check balance without wallet or network
-        if (!hasWallet || !chainConfig) {
-          return mcpSuccess({ valid: false, readyToExecute: false, checks, errors, warnings });
+        if (!hasWallet || !networkSupported) {
+          return mcpSuccess({
+            valid: false,
+            readyToExecute: false,
+            checks,
+            errors,
+            warnings,
+            ...(policy.length > 0 && { policy }),
+          });
         }
 
         // Get wallet for balance check
-        const { address } = await getWallet();
+        const address = addressForNetwork(await getWallet(), caip2);
+
+        // Check asset against the token registry
+        const token = getToken(caip2, requirements.asset);
+        checks.assetKnown = !!token;
+        checks.assetIsUSDC = getUSDCAddress(caip2)?.toLowerCase() === requirements.asset.toLowerCase();
+        if (!token) {
+          warnings.push(
+            `Unknown asset ${requirements.asset} on ${getChainName(caip2)}. Register it under "tokens" in config to show amounts in its units.`
+          );
+        }
+        const formatAmount = (amount: bigint) => formatMoney(assetAmount(caip2, requirements.asset, amount));
 
-        // Check balance
+        // Check balance of the requested asset (raw units, so unknown tokens are checked too)
         let balanceResult;
         try {
-          balanceResult = await hasSufficientBalance(address, requirements.amount, caip2);
+          balanceResult = await hasSufficientBalance(address, requirements.amount, caip2, requirements.asset);
           checks.sufficientBalance = balanceResult.sufficient;
           if (!balanceResult.sufficient) {
             errors.push(
-              `Insufficient balance. Required: ${formatUSDC(balanceResult.requiredAmount)}, ` +
-                `Available: ${formatUSDC(balanceResult.currentBalance)}`
+              `Insufficient balance. Required: ${formatAmount(balanceResult.requiredAmount)}, ` +
+                `Available: ${formatAmount(balanceResult.currentBalance)}`
             );
           }
         } catch (err) {
@@ -196,13 +395,6 @@ export function registerPaymentTools(server: McpServer): void {
           errors.push(`Failed to check balance: ${err instanceof Error ? err.message : String(err)}`);
         }
 
-        // Check asset
-        const expectedUsdc = chainConfig.usdcAddress.toLowerCase();
-        checks.assetIsUSDC = expectedUsdc === requirements.asset.toLowerCase();
-        if (!checks.assetIsUSDC) {
-          warnings.push(`Asset may not be USDC. Expected: ${expectedUsdc}, Got: ${requirements.asset}`);
-        }
-
         checks.signatureCapable = true;
 
         const valid = errors.length === 0;
@@ -213,11 +405,19 @@ export function registerPaymentTools(server: McpServer): void {
           network: { requested: requirements.network, resolved: caip2, name: getChainName(caip2), supported: true },
         };
 
+        if (policy.length > 0) response.policy = policy;
+
         if (balanceResult) {
           response.balance = {
-            current: formatUSDC(balanceResult.currentBalance),
-            required: formatUSDC(balanceResult.requiredAmount),
+            asset: token ? { symbol: token.symbol, address: token.address, decimals: token.decimals } : requirements.asset,
+            ...amountFields('current', assetAmount(caip2, requirements.asset, balanceResult.currentBalance)),
+            ...amountFields('required', assetAmount(caip2, requirements.asset, balanceResult.requiredAmount)),
             sufficient: balanceResult.sufficient,
+            ...(!balanceResult.sufficient &&
+              amountFields(
+                'shortfall',
+                assetAmount(caip2, requirements.asset, balanceResult.requiredAmount - balanceResult.currentBalance)
+              )),
           };
         }
 
@@ -235,19 +435,145 @@ export function registerPaymentTools(server: McpServer): void {
   server.registerTool(
     'execute_call',
     {
-      description: 'Make a paid request to an x402-protected endpoint. Handles 402 payment flow automatically.',
+      description:
+        'Make a paid request to an x402-protected endpoint. Handles 402 payment flow automatically. ' +
+        'With the default "cheapest" strategy, wallet balances are read over RPC before every paid call.',
       inputSchema: {
         url: z.string().url().describe('The endpoint URL'),
         method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']).default('GET'),
         body: z.unknown().optional().describe('Request body for POST/PUT/PATCH'),
+        bodyType: z.enum(BODY_TYPES).default('json').describe(BODY_TYPE_DESCRIPTION),
         headers: z.record(z.string()).optional().describe('Additional headers'),
+        maxAmount: z
+          .string()
+          .optional()
+          .describe('Refuse to pay more than this. USD ("$0.05" or "0.05") or raw token units ("raw:50000")'),
+        verifySettlement: z
+          .boolean()
+          .optional()
+          .describe('Confirm the settlement transaction on-chain (amount, payTo, payer). Defaults to config verifySettlement'),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe('Sign the payment and return its authorization fields, without the signature, instead of sending it. Defaults to X402_DRY_RUN'),
+        useCache: z
+          .boolean()
+          .default(true)
+          .describe('Return a cached response for an identical paid GET/POST made recently instead of paying again'),
+        wallet: z.string().optional().describe('Named wallet to pay from. Defaults to the active wallet'),
+        network: z
+          .string()
+          .optional()
+          .describe('Only pay on this network (e.g. "eip155:137", "polygon"). Fails if the endpoint does not accept it'),
+        strategy: z
+          .enum(SELECTION_STRATEGIES)
+          .default('cheapest')
+          .describe(
+            'How to pick among accepted options: "cheapest" reads the wallet balance of every accepted network and asset over RPC before each paid call, ' +
+              'then pays with the cheapest option the wallet can fund; ' +
+              '"preferred" uses the default network first, "first" takes the endpoint\'s order'
+          ),
       },
     },
-    async ({ url, method, body, headers }) => {
+    async (
+      {
+        url,
+        method,
+        body,
+        bodyType,
+        headers,
+        maxAmount,
+        verifySettlement: verify,
+        dryRun,
+        useCache,
+        wallet,
+        network,
+        strategy,
+      },
+      extra
+    ) => {
       try {
-        const { account, address } = await getWallet();
-        const client = createClient(account);
-        const result = await makeRequest(client, url, { method, body, headers });
+        const cap = maxAmount !== undefined ? parseAmountLimit(maxAmount) : undefined;
+        if (network && !isSupportedNetwork(network)) {
+          return mcpError(`Unsupported network: ${network}`, { tool: 'execute_call' });
+        }
+
+        const originFailures = policyFailures(evaluatePolicy({ url }));
+        if (originFailures.length > 0) {
+          return mcpError('Blocked by payment policy', {
+            success: false,
+            error: { phase: 'policy_denied', message: originFailures[0].message, details: { failures: originFailures } },
+          });
+        }
+
+        // Dry runs move no funds, so they skip human approval but keep every other check
+        const isDryRun = dryRun ?? process.env.X402_DRY_RUN === 'true';
+        const payingWallet = await getWallet(wallet);
+        const { name: walletName, account, address } = payingWallet;
+        const budget = budgetGuard();
+        const client = createClient(account, {
+          solanaSigner: await toTransactionSigner(payingWallet.solana),
+          policies: [enforcePolicy],
+          guards: isDryRun ? [budget.guard] : [budget.guard, approvalGuard(server, url)],
+        });
+        let ranked: RequirementOption[] | undefined;
+        let result: RequestResult;
+        // Solana requirements are paid from the wallet's Solana key
+        const payerOf = (r: RequestResult) =>
+          r.requirement ? addressForNetwork(payingWallet, r.requirement.network) : address;
+        try {
+          result = await makeRequest(client, url, {
+            method,
+            body,
+            bodyType,
+            confirmUploads: uploadConfirmation(server, url),
+            headers,
+            maxAmount: cap,
+            dryRun: isDryRun,
+            cacheTtlSeconds: useCache ? (getConfig().cache?.ttlSeconds ?? DEFAULT_CACHE_TTL_SECONDS) : 0,
+            walletAddress: address,
+            rankRequirements: async (accepts) => {
+              ranked = await selectRequirements(accepts, {
+                strategy,
+                network,
+                preferredNetwork: getDefaultNetwork(),
+                addressFor: (n) => addressForNetwork(payingWallet, n),
+              });
+              return ranked.map((option) => option.requirement);
+            },
+            selection: { network, strategy },
+            onStreamChunk: streamForwarder(server, extra),
+            signal: extra.signal,
+            timeouts: getConfig().timeouts,
+          });
+          if (!result.dryRun) await recordResult(url, method, result, payerOf(result));
+        } finally {
+          // The payment is in the ledger or kept for recovery by now, and those count against budgets
+          budget.release();
+        }
+        const selection = ranked && selectionSummary(strategy, network, ranked, result.requirement);
+        const payer = payerOf(result);
+
+        if (result.dryRun) {
+          const requirement = result.requirement;
+          return mcpSuccess({
+            success: true,
+            dryRun: true,
+            message: 'Payment was signed but not sent. No funds moved.',
+            payment: {
+              ...result.dryRun,
+              networkName: getChainName(result.dryRun.network),
+              payTo: result.requirement?.payTo,
+              asset: result.requirement?.asset,
+              ...(requirement && {
+                ...amountFields('price', assetAmount(requirement.network, requirement.asset, requirement.amount)),
+                approvalRequired: needsApproval(assetAmount(requirement.network, requirement.asset, requirement.amount)),
+              }),
+            },
+            x402Version: result.paymentRequired?.x402Version,
+            ...(selection && { selection }),
+          });
+        }
 
         if (!result.success) {
           const errorResponse: Record<string, unknown> = {
@@ -261,11 +587,15 @@ export function registerPaymentTools(server: McpServer): void {
               requirements: result.paymentRequired.accepts.map((req) => ({
                 network: req.network,
                 networkName: getChainName(req.network),
-                price: formatUSDC(BigInt(req.amount)),
-                priceRaw: req.amount,
+                ...amountFields('price', assetAmount(req.network, req.asset, req.amount)),
               })),
             };
           }
+          if (result.settlement) {
+            errorResponse.settlement = { ...result.settlement, networkName: getChainName(result.settlement.network) };
+          }
+          if (result.recovery) errorResponse.recovery = result.recovery;
+          if (selection) errorResponse.selection = selection;
           return mcpError(result.error?.message || 'Request failed', errorResponse);
         }
 
@@ -275,25 +605,139 @@ export function registerPaymentTools(server: McpServer): void {
           data: result.data,
         };
 
+        if (result.file) response.file = result.file;
+
+        if (selection) response.selection = selection;
+
+        if (result.cached) {
+          response.cached = true;
+          response.cache = {
+            message: 'Identical paid request was made recently. Returned the cached response; nothing was paid.',
+            storedAt: result.cached.storedAt,
+            expiresAt: result.cached.expiresAt,
+            originalSettlement: result.cached.settlement,
+          };
+        }
+
         if (result.settlement) {
-          const amount = result.paymentRequired?.accepts?.[0]?.amount;
+          const requirement = result.requirement;
           response.settlement = {
             transactionHash: result.settlement.transactionHash,
             network: result.settlement.network,
             networkName: getChainName(result.settlement.network),
-            payer: address,
-            ...(amount && { amountPaid: formatUSDC(BigInt(amount)) }),
+            payer,
+            wallet: walletName,
+            ...(requirement &&
+              amountFields('amountPaid', assetAmount(requirement.network, requirement.asset, requirement.amount))),
           };
         }
 
+        if (result.settlement && result.requirement && (verify ?? getConfig().verifySettlement)) {
+          try {
+            // The signed requirement says where the payment can settle; the server's report is not trusted
+            response.settlementVerified = await verifySettlement({
+              network: result.requirement.network,
+              transactionHash: result.settlement.transactionHash,
+              asset: result.requirement.asset,
+              amount: result.requirement.amount,
+              payTo: result.requirement.payTo,
+              payer,
+              nonce: result.authorization?.nonce,
+              reportedNetwork: result.settlement.network,
+            });
+          } catch (err) {
+            response.settlementVerified = {
+              verified: false,
+              errors: [`Verification failed: ${err instanceof Error ? err.message : String(err)}`],
+            };
+          }
+        }
+
         if (result.paymentRequired) {
           response.x402Version = result.paymentRequired.x402Version;
         }
 
-        return mcpSuccess(response);
+        return result.file ? mcpSuccessWithFile(response, result.file) : mcpSuccess(response);
       } catch (err) {
         return mcpError(err, { tool: 'execute_call', url });
       }
     }
   );
+
+  // recover_payment - check or re-submit a signed payment whose paid request failed
+  server.registerTool(
+    'recover_payment',
+    {
+      description:
+        'Check or re-submit a payment whose paid request failed after signing (execute_call returns its id under recovery). Checks on-chain whether funds moved, and re-sends the same signed payment while it is still valid - never a new one. Without an id, lists the kept payments.',
+      inputSchema: {
+        id: z.string().optional().describe('recovery.id from the failed execute_call'),
+      },
+    },
+    async ({ id }, extra) => {
+      try {
+        if (!id) {
+          const payments = listKeptPayments().map((payment) => ({
+            id: payment.id,
+            url: payment.url,
+            method: payment.request.method,
+            ...(payment.requirement && {
+              network: toCaip2(payment.requirement.network),
+              ...amountFields(
+                'price',
+                assetAmount(payment.requirement.network, payment.requirement.asset, payment.requirement.amount)
+              ),
+            }),
+            signedAt: new Date(payment.signedAt).toISOString(),
+            validUntil: new Date(payment.expiresAt).toISOString(),
+            submissions: payment.submissions,
+          }));
+          return mcpSuccess({ payments });
+        }
+
+        const payment = getKeptPayment(id);
+        if (!payment) {
+          return mcpError(`No kept payment with id ${id}. Payments are only kept until the server restarts`, {
+            tool: 'recover_payment',
+          });
+        }
+
+        const { url } = payment;
+        const method = payment.request.method;
+        const result = await resubmitPayment(id, {
+          signal: extra.signal,
+          timeouts: getConfig().timeouts,
+          onStreamChunk: streamForwarder(server, extra),
+        });
+        await recordResult(url, method, result, payment.authorization?.from || result.settlement?.payer || '');
+
+        const settlement = result.settlement && {
+          ...result.settlement,
+          networkName: getChainName(result.settlement.network),
+        };
+        if (!result.success) {
+          return mcpError(result.error?.message || 'Recovery failed', {
+            success: false,
+            statusCode: result.statusCode,
+            error: result.error,
+            ...(result.recovery && { recovery: result.recovery }),
+            ...(settlement && { settlement }),
+          });
+        }
+
+        const response: Record<string, unknown> = {
+          success: true,
+          recovered: true,
+          url,
+          statusCode: result.statusCode,
+          data: result.data,
+          ...(result.file && { file: result.file }),
+          ...(settlement && { settlement }),
+        };
+        return result.file ? mcpSuccessWithFile(response, result.file) : mcpSuccess(response);
+      } catch (err) {
+        return mcpError(err, { tool: 'recover_payment', id });
+      }
+    }
+  );
 }
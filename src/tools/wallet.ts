@@ -1,53 +1,154 @@
 /**
- * Wallet tools - balance checking
+ * Wallet tools - balance checking, transfers and named wallet management
  */
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { isAddress } from 'viem';
 import { mcpSuccess, mcpError } from '../response';
-import { getWallet, keystorePath } from '../keystore';
-import { getUSDCBalance } from '../balance';
-import { DEFAULT_NETWORK, getChainName, getExplorerUrl, getUSDCAddress, isTestnet } from '../networks';
+import { amountFields, formatMoney, money, toDecimal } from '../money';
+import {
+  addressForNetwork,
+  createWallet,
+  exportWallet,
+  getActiveWalletName,
+  getWallet,
+  importWallet,
+  listWallets,
+  previewExport,
+  setActiveWallet,
+  ENV_WALLET,
+  type Wallet,
+} from '../keystore';
+import { getAllBalances, getTokenBalance, getUSDCBalance, usdcTotals, type NetworkBalance } from '../balance';
+import { checkRpcHealth } from '../rpc';
+import { queryEndpoint } from '../x402/client';
+import { estimateTransfer, sendUSDC, transferAmount } from '../transfer';
+import { confirmAction } from '../approval';
+import { evaluatePolicy, policyFailures } from '../policy';
+import { getConfig } from '../config';
+import {
+  assetAmount,
+  getChainConfig,
+  getChainName,
+  getDefaultNetwork,
+  getExplorerLink,
+  getToken,
+  getUSDCAddress,
+  isSolanaNetwork,
+  isSupportedNetwork,
+  isTestnet,
+  listNetworks,
+  toCaip2,
+} from '../networks';
 
 export function registerWalletTools(server: McpServer): void {
   server.registerTool(
     'check_balance',
     {
-      description: 'Check wallet address and USDC balance. Creates wallet if needed.',
+      description:
+        'Check wallet address and USDC balance. Creates wallet if needed. Use all=true to see USDC, registered token and gas balances on every supported network.',
+      inputSchema: {
+        wallet: z.string().optional().describe('Named wallet to check. Defaults to the active wallet'),
+        network: z
+          .string()
+          .optional()
+          .describe(
+            'Network to read the USDC balance on (CAIP-2 or v1 name, e.g. "base", "solana"). Defaults to defaultNetwork in config, or Base'
+          ),
+        asset: z
+          .string()
+          .optional()
+          .describe('Registered token to read instead of USDC, by symbol ("EURC") or address'),
+        all: z
+          .boolean()
+          .default(false)
+          .describe('Read USDC, registered token and native gas balances on every supported network in parallel'),
+        url: z
+          .string()
+          .url()
+          .optional()
+          .describe('With all=true, also report which funded networks can pay this x402 endpoint'),
+      },
     },
-    async () => {
+    async ({ wallet, network: requested, asset, all, url }, extra) => {
       try {
-        const { address, isNew } = await getWallet();
+        if (all) {
+          return mcpSuccess(await balanceOverview(await getWallet(wallet), url, extra.signal));
+        }
+        const network = requested ?? getDefaultNetwork();
+        if (!isSupportedNetwork(network)) {
+          return mcpError(`Unsupported network: ${network}`, { tool: 'check_balance' });
+        }
+
+        const current = await getWallet(wallet);
+        const { name, address, solana, file, isNew } = current;
+        const depositAddress = addressForNetwork(current, network);
+
+        // Probed alongside the balance read so a failing endpoint is visible either way
+        const rpcHealth = checkRpcHealth(network);
+
+        const token = asset ? getToken(network, asset) : undefined;
+        if (asset && !token) {
+          return mcpError(
+            `Unknown asset "${asset}" on ${getChainName(network)}. Register it under "tokens" in config.`,
+            { tool: 'check_balance', network: toCaip2(network) }
+          );
+        }
+        if (token && token.address.toLowerCase() !== getUSDCAddress(network)?.toLowerCase()) {
+          const tokenBalance = await getTokenBalance(depositAddress, token);
+          return mcpSuccess({
+            wallet: name,
+            address,
+            solanaAddress: solana.publicKey,
+            network: token.network,
+            networkName: getChainName(token.network),
+            token: { symbol: token.symbol, address: token.address, decimals: token.decimals },
+            balance: tokenBalance.formatted,
+            balanceRaw: tokenBalance.balance.toString(),
+            walletFile: file,
+            isNewWallet: isNew,
+            rpc: await rpcHealth,
+          });
+        }
 
         let balance;
         try {
-          balance = await getUSDCBalance(address, DEFAULT_NETWORK);
+          balance = await getUSDCBalance(depositAddress, network);
         } catch (err) {
           return mcpSuccess({
+            wallet: name,
             address,
-            network: DEFAULT_NETWORK,
-            networkName: getChainName(DEFAULT_NETWORK),
+            solanaAddress: solana.publicKey,
+            network: toCaip2(network),
+            networkName: getChainName(network),
             balanceUSDC: null,
             balanceError: err instanceof Error ? err.message : 'Failed to fetch balance',
-            walletFile: keystorePath,
+            walletFile: file,
             isNewWallet: isNew,
-            fundingInstructions: getFundingInstructions(address, DEFAULT_NETWORK),
+            rpc: await rpcHealth,
+            fundingInstructions: getFundingInstructions(depositAddress, network),
           });
         }
 
         const response: Record<string, unknown> = {
+          wallet: name,
           address,
+          solanaAddress: solana.publicKey,
           network: balance.network,
           networkName: getChainName(balance.network),
-          balanceUSDC: balance.formatted,
-          balanceFormatted: balance.formattedString,
-          walletFile: keystorePath,
+          balanceUSDC: toDecimal(balance.balance, balance.decimals),
+          balanceFormatted: balance.formatted,
+          balanceRaw: balance.balance.toString(),
+          walletFile: file,
           isNewWallet: isNew,
+          rpc: await rpcHealth,
         };
 
-        if (balance.formatted < 1) {
-          response.fundingInstructions = getFundingInstructions(address, balance.network);
+        if (balance.balance < 10n ** BigInt(balance.decimals)) {
+          response.fundingInstructions = getFundingInstructions(depositAddress, balance.network);
           response.suggestion =
-            balance.formatted === 0
+            balance.balance === 0n
               ? 'Your wallet has no USDC. Send USDC to the address above to start making paid API calls.'
               : 'Your balance is low. Consider topping up.';
         }
@@ -58,10 +159,376 @@ export function registerWalletTools(server: McpServer): void {
       }
     }
   );
+
+  // list_wallets - named wallets without unlocking them
+  server.registerTool(
+    'list_wallets',
+    {
+      description: 'List named wallets and which one is active. Does not unlock encrypted wallets.',
+    },
+    async () => {
+      try {
+        const wallets = await listWallets();
+        const response: Record<string, unknown> = {
+          wallets,
+          active: wallets.find((w) => w.active)?.name ?? null,
+        };
+        if (wallets.some((w) => w.name === ENV_WALLET)) {
+          response.note = 'X402_PRIVATE_KEY is set and overrides the active wallet unless a wallet is named explicitly.';
+        }
+        if (wallets.length === 0) {
+          response.suggestion = 'No wallets yet. Run check_balance to create the default wallet, or create_wallet to add a named one.';
+        }
+        return mcpSuccess(response);
+      } catch (err) {
+        return mcpError(err, { tool: 'list_wallets' });
+      }
+    }
+  );
+
+  // create_wallet - add a named wallet
+  server.registerTool(
+    'create_wallet',
+    {
+      description:
+        'Create a new named wallet (e.g. "research", "prod", "testnet") with a fresh mnemonic, or derive another account from an existing mnemonic wallet.',
+      inputSchema: {
+        name: z.string().describe('Wallet name: lowercase letters, digits, "-" or "_"'),
+        from: z
+          .string()
+          .optional()
+          .describe("Existing mnemonic wallet to derive from (m/44'/60'/0'/0/index), so one phrase backs up both"),
+        index: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe('Account index to derive. Defaults to the next unused index'),
+        activate: z.boolean().default(false).describe('Make the new wallet active'),
+      },
+    },
+    async ({ name, from, index, activate }) => {
+      try {
+        const wallet = await createWallet(name, { from, index });
+        if (activate) await setActiveWallet(wallet.name);
+        return mcpSuccess({
+          wallet: wallet.name,
+          address: wallet.address,
+          walletFile: wallet.file,
+          active: activate,
+          message: `Created wallet "${wallet.name}". Fund ${wallet.address} before making paid calls with it.`,
+        });
+      } catch (err) {
+        return mcpError(err, { tool: 'create_wallet', name });
+      }
+    }
+  );
+
+  // import_wallet - bring an existing mnemonic or key into the keystore
+  server.registerTool(
+    'import_wallet',
+    {
+      description: 'Import an existing BIP-39 mnemonic or raw private key as a named wallet.',
+      inputSchema: {
+        name: z.string().describe('Wallet name: lowercase letters, digits, "-" or "_"'),
+        mnemonic: z.string().optional().describe('BIP-39 English mnemonic (12-24 words)'),
+        privateKey: z.string().optional().describe('Hex private key. Use instead of mnemonic'),
+        index: z
+          .number()
+          .int()
+          .min(0)
+          .default(0)
+          .describe("Account index for a mnemonic (m/44'/60'/0'/0/index)"),
+        activate: z.boolean().default(false).describe('Make the imported wallet active'),
+      },
+    },
+    async ({ name, mnemonic, privateKey, index, activate }) => {
+      try {
+        const wallet = await importWallet(name, { mnemonic, privateKey, index });
+        if (activate) await setActiveWallet(wallet.name);
+        return mcpSuccess({
+          wallet: wallet.name,
+          address: wallet.address,
+          walletFile: wallet.file,
+          active: activate,
+        });
+      } catch (err) {
+        return mcpError(err, { tool: 'import_wallet', name });
+      }
+    }
+  );
+
+  // export_wallet - reveal the backup after human confirmation
+  server.registerTool(
+    'export_wallet',
+    {
+      description:
+        'Export the mnemonic and private key of a wallet for backup. The user must confirm in their MCP client first.',
+      inputSchema: {
+        name: z.string().optional().describe('Wallet to export. Defaults to the active wallet'),
+      },
+    },
+    async ({ name }) => {
+      try {
+        const walletName = name ?? (await getActiveWalletName());
+        // Nothing is decrypted until the human confirms
+        const preview = await previewExport(walletName);
+        const siblings = preview.sharedWith.map((w) => `"${w}"`).join(', ');
+        const siblingWarning = siblings
+          ? `The mnemonic is shared with wallets ${siblings}: anyone who sees it can spend their funds too.`
+          : undefined;
+
+        const confirmation = await confirmAction(server, 'Export wallet', [
+          `Reveal the secret key material of wallet "${preview.name}" (${preview.address})?`,
+          '',
+          `The ${preview.type === 'mnemonic' ? 'mnemonic and ' : ''}private key will be shown in this conversation. Anyone who sees them can spend the funds.`,
+          ...(siblingWarning ? ['', siblingWarning] : []),
+        ]);
+        if (!confirmation.confirmed) {
+          return mcpError(confirmation.message, { wallet: preview.name, address: preview.address });
+        }
+
+        const backup = await exportWallet(walletName);
+        return mcpSuccess({
+          ...backup,
+          ...(preview.sharedWith.length > 0 && { sharedWith: preview.sharedWith }),
+          warning: [
+            'Anyone with this mnemonic or private key controls the funds. Store it offline and clear it from this chat.',
+            ...(siblingWarning ? [siblingWarning] : []),
+          ].join(' '),
+        });
+      } catch (err) {
+        return mcpError(err, { tool: 'export_wallet', name });
+      }
+    }
+  );
+
+  // send_usdc - withdraw USDC to another address
+  server.registerTool(
+    'send_usdc',
+    {
+      description:
+        'Send USDC from the wallet to another address on an EVM network (withdraw). Checks balance and gas, and the user must confirm before it is sent.',
+      inputSchema: {
+        to: z.string().describe('Recipient address'),
+        amount: z
+          .string()
+          .describe('Amount in USD ("$5", "5.00"), raw units ("raw:5000000"), or "max" for the whole balance'),
+        network: z
+          .string()
+          .optional()
+          .describe('Network to send on (CAIP-2 or v1 name). Defaults to defaultNetwork in config, or Base'),
+        wallet: z.string().optional().describe('Named wallet to send from. Defaults to the active wallet'),
+      },
+    },
+    async ({ to, amount, network: requested, wallet }) => {
+      try {
+        const network = requested ?? getDefaultNetwork();
+        if (!isAddress(to)) {
+          return mcpError(`Invalid recipient address: ${to}`, { tool: 'send_usdc' });
+        }
+        if (isSolanaNetwork(network)) {
+          return mcpError('send_usdc supports EVM networks only', { network: toCaip2(network) });
+        }
+        if (!getChainConfig(network)) {
+          return mcpError(`Unsupported network: ${network}`, { tool: 'send_usdc' });
+        }
+
+        const { name, account, address } = await getWallet(wallet);
+        const balance = await getUSDCBalance(address, network);
+        const value = transferAmount(amount, balance.amount);
+
+        if (value.raw <= 0n) {
+          return mcpError('Nothing to send', { ...amountFields('balance', balance.amount), amount });
+        }
+        if (value.raw > balance.balance) {
+          return mcpError('Insufficient USDC balance', {
+            ...amountFields('required', value),
+            ...amountFields('available', balance.amount),
+            ...amountFields('shortfall', { ...value, raw: value.raw - balance.balance }),
+            network: balance.network,
+          });
+        }
+
+        const transfer = { account, network, to, amount: value.raw };
+        const estimate = await estimateTransfer(transfer);
+        if (!estimate.sufficientGas) {
+          return mcpError(`Not enough ${estimate.nativeSymbol} for gas`, {
+            estimatedFee: estimate.maxFeeFormatted,
+            nativeBalance: estimate.nativeBalanceFormatted,
+            depositAddress: address,
+            hint: `Send some ${estimate.nativeSymbol} on ${getChainName(network)} to ${address} to pay for gas.`,
+          });
+        }
+
+        const confirmation = await confirmAction(server, 'Send USDC', [
+          `Send ${formatMoney(value)} USDC (${value.raw} raw units) from wallet "${name}"?`,
+          '',
+          `From: ${address}`,
+          `To: ${to}`,
+          `Network: ${getChainName(network)} (${toCaip2(network)})`,
+          `Estimated max gas fee: ${estimate.maxFeeFormatted}`,
+          '',
+          'This transfer cannot be undone.',
+        ]);
+        if (!confirmation.confirmed) {
+          return mcpError(confirmation.message, { to, ...amountFields('amount', value), network: toCaip2(network) });
+        }
+
+        const result = await sendUSDC(transfer);
+        const response: Record<string, unknown> = {
+          success: result.status === 'success',
+          status: result.status,
+          transactionHash: result.transactionHash,
+          explorerUrl: getExplorerLink(network, 'tx', result.transactionHash),
+          from: address,
+          to,
+          ...amountFields('amount', value),
+          network: toCaip2(network),
+          networkName: getChainName(network),
+          maxGasFee: result.maxFeeFormatted,
+          blockNumber: result.blockNumber,
+          gasUsed: result.gasUsed,
+        };
+        if (result.status === 'pending') {
+          response.note = 'Transaction was sent but not yet confirmed. Check the explorer link.';
+        }
+        if (result.status === 'reverted') {
+          return mcpError('Transfer reverted on-chain', response);
+        }
+        return mcpSuccess(response);
+      } catch (err) {
+        return mcpError(err, { tool: 'send_usdc', to, network: requested });
+      }
+    }
+  );
+
+  // switch_wallet - change the active wallet
+  server.registerTool(
+    'switch_wallet',
+    {
+      description: 'Switch the active wallet used by tools that are not given an explicit wallet.',
+      inputSchema: {
+        name: z.string().describe('Name of an existing wallet (see list_wallets)'),
+      },
+    },
+    async ({ name }) => {
+      try {
+        const wallet = await setActiveWallet(name);
+        const response: Record<string, unknown> = {
+          active: wallet.name,
+          address: wallet.address,
+          walletFile: wallet.file,
+        };
+        if (process.env.X402_PRIVATE_KEY) {
+          response.warning =
+            'X402_PRIVATE_KEY is set and still overrides the active wallet. Pass wallet explicitly or unset it.';
+        }
+        return mcpSuccess(response);
+      } catch (err) {
+        return mcpError(err, { tool: 'switch_wallet', name });
+      }
+    }
+  );
+}
+
+/** Per-network USDC and gas balances, totals, and which networks can pay */
+function heldBalance(holding: NetworkBalance | undefined, asset: string): bigint | undefined {
+  if (!holding) return undefined;
+  if (holding.usdc?.usdcAddress.toLowerCase() === asset.toLowerCase()) return holding.usdc.balance;
+  return holding.tokens.find((t) => t.token.address.toLowerCase() === asset.toLowerCase())?.balance;
+}
+
+async function balanceOverview(wallet: Wallet, url?: string, signal?: AbortSignal): Promise<Record<string, unknown>> {
+  const [balances, rpcHealth] = await Promise.all([
+    getAllBalances({ evm: wallet.address, solana: wallet.solana.publicKey }),
+    Promise.all(
+      listNetworks().map(
+        async (network) => [network, await checkRpcHealth(network)] as const
+      )
+    ).then((entries) => new Map(entries)),
+  ]);
+
+  const totals = usdcTotals(balances);
+
+  const networks = balances.map((b) => ({
+    network: b.network,
+    networkName: b.networkName,
+    testnet: b.testnet,
+    address: b.address,
+    usdc: b.usdc?.formatted ?? null,
+    usdcRaw: b.usdc?.balance.toString() ?? null,
+    native: b.native?.formatted ?? null,
+    nativeRaw: b.native?.balance.toString() ?? null,
+    ...(b.tokens.length > 0 && {
+      tokens: b.tokens.map((t) => ({
+        symbol: t.token.symbol,
+        address: t.token.address,
+        balance: t.formatted,
+        balanceRaw: t.balance.toString(),
+      })),
+    }),
+    // x402 payments are gasless for the payer, so holding the token alone is enough to pay
+    canPay: (!!b.usdc && b.usdc.balance > 0n) || b.tokens.some((t) => t.balance > 0n),
+    // Withdrawing with send_usdc spends gas (EVM only)
+    canWithdraw: !isSolanaNetwork(b.network) && !!b.usdc && b.usdc.balance > 0n && !!b.native && b.native.balance > 0n,
+    rpc: rpcHealth.get(b.network) ?? [],
+    ...(b.errors.length > 0 && { errors: b.errors }),
+  }));
+
+  const response: Record<string, unknown> = {
+    wallet: wallet.name,
+    address: wallet.address,
+    solanaAddress: wallet.solana.publicKey,
+    totals: {
+      ...amountFields('usdc', money(totals.mainnet)),
+      ...amountFields('testnetUsdc', money(totals.testnet)),
+    },
+    payableNetworks: networks.filter((n) => n.canPay).map((n) => n.network),
+    networks,
+  };
+
+  // The endpoint is probed under the same origin policy and timeouts as execute_call
+  const originFailures = url ? policyFailures(evaluatePolicy({ url })) : [];
+  if (url && originFailures.length > 0) {
+    response.endpoint = { url, note: 'Blocked by payment policy', failures: originFailures };
+  } else if (url) {
+    const query = await queryEndpoint(url, { signal, timeouts: getConfig().timeouts });
+    if (!query.paymentRequired) {
+      response.endpoint = {
+        url,
+        statusCode: query.statusCode,
+        note: query.error ?? 'Endpoint did not return payment requirements',
+      };
+    } else {
+      const options = query.paymentRequired.accepts.map((req) => {
+        const caip2 = toCaip2(req.network);
+        const token = getToken(caip2, req.asset);
+        const held = token ? heldBalance(balances.find((b) => b.network === caip2), token.address) : undefined;
+        const denied = policyFailures(evaluatePolicy({ url, network: caip2, payTo: req.payTo, asset: req.asset }));
+        return {
+          network: caip2,
+          networkName: getChainName(caip2),
+          scheme: req.scheme,
+          asset: req.asset,
+          symbol: token?.symbol,
+          ...amountFields('price', assetAmount(caip2, req.asset, req.amount)),
+          canPay: req.scheme === 'exact' && held !== undefined && held >= BigInt(req.amount) && denied.length === 0,
+          ...(denied.length > 0 && { policyDenied: denied[0].message }),
+        };
+      });
+      response.endpoint = {
+        url,
+        options,
+        payableWith: options.filter((o) => o.canPay).map((o) => o.network),
+      };
+    }
+  }
+
+  return response;
 }
 
 function getFundingInstructions(address: string, network: string): Record<string, unknown> {
-  const explorerUrl = getExplorerUrl(network);
   const usdcAddress = getUSDCAddress(network);
   const chainName = getChainName(network);
   const testnet = isTestnet(network);
@@ -71,7 +538,7 @@ function getFundingInstructions(address: string, network: string): Record<string
     isTestnet: testnet,
     depositAddress: address,
     usdcContract: usdcAddress,
-    explorerUrl: explorerUrl ? `${explorerUrl}/address/${address}` : undefined,
+    explorerUrl: getExplorerLink(network, 'address', address),
     instructions: testnet
       ? `This is a testnet. Get test USDC from a faucet and send to ${address}`
       : `Send USDC on ${chainName} to ${address}`,
@@ -0,0 +1,141 @@
+/**
+ * USDC transfers out of the wallet (EVM chains)
+ *
+ * Plain ERC-20 transfer paid for with the wallet's native gas token,
+ * as opposed to x402 payments where the facilitator pays gas.
+ */
+
+import { createWalletClient, formatEther, parseAbi } from 'viem';
+import type { PrivateKeyAccount } from 'viem/accounts';
+import { getChainConfig, toCaip2 } from './networks';
+import { parseAmount, type Money } from './money';
+import { createEvmClient, getEvmTransport } from './rpc';
+import { log } from './log';
+
+const TRANSFER_ABI = parseAbi(['function transfer(address to, uint256 value) returns (bool)']);
+
+const RECEIPT_TIMEOUT_MS = 60_000;
+
+export interface TransferRequest {
+  account: PrivateKeyAccount;
+  network: string;
+  to: `0x${string}`;
+  /** Raw USDC units */
+  amount: bigint;
+}
+
+export interface TransferEstimate {
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** gas * maxFeePerGas, in wei */
+  maxFee: bigint;
+  maxFeeFormatted: string;
+  nativeBalance: bigint;
+  nativeBalanceFormatted: string;
+  nativeSymbol: string;
+  sufficientGas: boolean;
+}
+
+export interface TransferResult {
+  transactionHash: `0x${string}`;
+  /** Max gas fee of the transaction as sent */
+  maxFeeFormatted: string;
+  status: 'success' | 'reverted' | 'pending';
+  blockNumber?: string;
+  gasUsed?: string;
+}
+
+/**
+ * Amount to send, in the units of the balance it is sent from: "max" is the whole balance,
+ * USD amounts are parsed at the token's decimals, which need not be USDC's usual 6
+ */
+export function transferAmount(amount: string, balance: Money): Money {
+  if (amount.trim().toLowerCase() === 'max') return balance;
+  return { ...balance, raw: parseAmount(amount, balance) };
+}
+
+function clients(account: PrivateKeyAccount, network: string) {
+  const config = getChainConfig(network);
+  if (!config) throw new Error(`Unsupported network for transfers: ${network}`);
+  const { chain, usdcAddress } = config;
+  if (!usdcAddress) throw new Error(`No USDC token configured on ${chain.name}`);
+  return {
+    chain,
+    usdcAddress,
+    publicClient: createEvmClient(network),
+    walletClient: createWalletClient({ account, chain, transport: getEvmTransport(network) }),
+  };
+}
+
+/** Simulate the transfer and price its gas against the native balance */
+export async function estimateTransfer({ account, network, to, amount }: TransferRequest): Promise<TransferEstimate> {
+  const { chain, usdcAddress, publicClient } = clients(account, network);
+
+  const [gas, fees, nativeBalance] = await Promise.all([
+    publicClient.estimateContractGas({
+      account,
+      address: usdcAddress,
+      abi: TRANSFER_ABI,
+      functionName: 'transfer',
+      args: [to, amount],
+    }),
+    publicClient.estimateFeesPerGas(),
+    publicClient.getBalance({ address: account.address }),
+  ]);
+
+  const maxFee = gas * fees.maxFeePerGas;
+  const symbol = chain.nativeCurrency.symbol;
+  return {
+    gas,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    maxFee,
+    maxFeeFormatted: `${formatEther(maxFee)} ${symbol}`,
+    nativeBalance,
+    nativeBalanceFormatted: `${formatEther(nativeBalance)} ${symbol}`,
+    nativeSymbol: symbol,
+    sufficientGas: nativeBalance >= maxFee,
+  };
+}
+
+/**
+ * Send the transfer and wait for its receipt. Gas is estimated again right before
+ * sending, since fees and balances can move while the user confirms
+ */
+export async function sendUSDC(request: TransferRequest): Promise<TransferResult> {
+  const { account, network, to, amount } = request;
+  const { chain, usdcAddress, publicClient, walletClient } = clients(account, network);
+
+  const estimate = await estimateTransfer(request);
+  if (!estimate.sufficientGas) {
+    throw new Error(
+      `Not enough ${estimate.nativeSymbol} for gas: fee up to ${estimate.maxFeeFormatted}, balance ${estimate.nativeBalanceFormatted}`
+    );
+  }
+
+  log.info(`Sending ${amount} raw USDC to ${to} on ${chain.name} (${toCaip2(network)})`);
+  const hash = await walletClient.writeContract({
+    address: usdcAddress,
+    abi: TRANSFER_ABI,
+    functionName: 'transfer',
+    args: [to, amount],
+    gas: estimate.gas,
+    maxFeePerGas: estimate.maxFeePerGas,
+    maxPriorityFeePerGas: estimate.maxPriorityFeePerGas,
+  });
+
+  try {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS });
+    return {
+      transactionHash: hash,
+      maxFeeFormatted: estimate.maxFeeFormatted,
+      status: receipt.status,
+      blockNumber: receipt.blockNumber.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+    };
+  } catch (err) {
+    log.error(`No receipt for ${hash} yet: ${err instanceof Error ? err.message : String(err)}`);
+    return { transactionHash: hash, maxFeeFormatted: estimate.maxFeeFormatted, status: 'pending' };
+  }
+}
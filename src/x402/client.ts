@@ -2,16 +2,54 @@
  * x402 HTTP client - handles the 402 payment flow
  */
 
+import { randomBytes } from 'crypto';
 import type { PrivateKeyAccount } from 'viem/accounts';
 import { privateKeyToAccount } from 'viem/accounts';
-import { x402Client } from '@x402/core/client';
+import { x402Client, type PaymentPolicy } from '@x402/core/client';
 import { x402HTTPClient } from '@x402/core/http';
 import { registerExactEvmScheme } from '@x402/evm/exact/client';
+import { ExactSvmScheme } from '@x402/svm/exact/client';
+import { ExactSvmSchemeV1, NETWORKS as SVM_V1_NETWORKS } from '@x402/svm/v1';
+import type { ClientSvmSigner } from '@x402/svm';
 import type { PaymentRequired, PaymentPayload } from '@x402/core/types';
 import { log } from '../log';
-import { toCaip2 } from '../networks';
+import { SOLANA_CONFIGS, assetAmount, getToken, toCaip2 } from '../networks';
+import { getRpcUrls } from '../rpc';
+import { amountFields, formatMoney, formatUSDC, money, toUsdcUnits } from '../money';
 import { getClientIdentifierHeaders } from '../keystore';
-import { normalizePaymentRequired, type NormalizedPaymentRequired } from './protocol';
+import { readErrorText, readResponseBody, type ResponseBody, type SavedFile } from '../downloads';
+import type { StreamChunkHandler } from '../streaming';
+import {
+  contentTypeHeader,
+  encodeBody,
+  type BodyType,
+  type EncodedBody,
+  type UploadConfirmation,
+} from '../request-body';
+import type { TimeoutsConfig } from '../config';
+import {
+  CancelledError,
+  DEFAULT_TIMEOUTS,
+  TimeoutError,
+  fetchWithRetry,
+  sleep,
+  type FetchOutcome,
+  type RequestTimeouts,
+} from './retry';
+import {
+  checkPayment,
+  forgetPayment,
+  getKeptPayment,
+  keepPayment,
+  type PaymentRecovery,
+  type PendingPayment,
+} from './recovery';
+import { CACHEABLE_METHODS, getCachedResponse, paidResponseKey, setCachedResponse } from '../cache';
+import {
+  normalizePaymentRequired,
+  type NormalizedPaymentRequired,
+  type NormalizedRequirement,
+} from './protocol';
 
 export type { NormalizedPaymentRequired, NormalizedRequirement } from './protocol';
 
@@ -28,28 +66,155 @@ export function getParseClient(): x402HTTPClient {
   return parseClient;
 }
 
-export function createClient(account: PrivateKeyAccount, preferredNetwork?: string): x402HTTPClient {
+type RequestErrorPhase =
+  | 'initial_request'
+  | 'parse_requirements'
+  | 'price_exceeds_cap'
+  | 'select_requirement'
+  | 'insufficient_balance'
+  | 'policy_denied'
+  | 'budget_exceeded'
+  | 'approval_denied'
+  | 'create_signature'
+  | 'paid_request'
+  | 'settlement'
+  | 'cancelled';
+
+/**
+ * Thrown by a payment guard to refuse signing.
+ * makeRequest reports it as an error in the given phase instead of create_signature.
+ */
+export class PaymentRefusedError extends Error {
+  constructor(
+    readonly phase: RequestErrorPhase,
+    message: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'PaymentRefusedError';
+  }
+}
+
+/**
+ * Check run on the selected requirement right before it is signed.
+ * Throw PaymentRefusedError to stop the payment.
+ */
+export type PaymentGuard = (
+  requirement: NormalizedRequirement,
+  paymentRequired: NormalizedPaymentRequired
+) => Promise<void>;
+
+export interface ClientOptions {
+  preferredNetwork?: string;
+  /** Filters applied to the accepted requirements before one is selected */
+  policies?: PaymentPolicy[];
+  guards?: PaymentGuard[];
+  /** Signs exact-scheme Solana payments. Without it, solana: requirements are not payable */
+  solanaSigner?: ClientSvmSigner;
+}
+
+/**
+ * Same registrations as registerExactSvmScheme, but each known Solana network
+ * builds its transactions against the configured RPC instead of the public default.
+ */
+function registerSvmSchemes(core: x402Client, signer: ClientSvmSigner): void {
+  core.register('solana:*', new ExactSvmScheme(signer));
+  for (const { caip2 } of Object.values(SOLANA_CONFIGS)) {
+    core.register(caip2, new ExactSvmScheme(signer, { rpcUrl: getRpcUrls(caip2)[0] }));
+  }
+  for (const network of SVM_V1_NETWORKS) {
+    core.registerV1(network, new ExactSvmSchemeV1(signer, { rpcUrl: getRpcUrls(network)[0] }));
+  }
+}
+
+export function createClient(account: PrivateKeyAccount, options: ClientOptions = {}): x402HTTPClient {
+  const { preferredNetwork, policies = [], guards = [], solanaSigner } = options;
   const core = new x402Client(
     preferredNetwork
       ? (_v, accepts) => accepts.find((a) => toCaip2(a.network) === toCaip2(preferredNetwork)) ?? accepts[0]
       : undefined
   );
   registerExactEvmScheme(core, { signer: account });
+  if (solanaSigner) registerSvmSchemes(core, solanaSigner);
+  policies.forEach((policy) => core.registerPolicy(policy));
+
+  if (guards.length > 0) {
+    core.onBeforePaymentCreation(async ({ paymentRequired, selectedRequirements }) => {
+      const normalized = normalizePaymentRequired(paymentRequired);
+      const [requirement] = normalizePaymentRequired({ ...paymentRequired, accepts: [selectedRequirements] }).accepts;
+      for (const guard of guards) {
+        await guard(requirement, normalized);
+      }
+    });
+  }
+
   return new x402HTTPClient(core);
 }
 
+/** EIP-3009 transferWithAuthorization fields signed by the exact EVM scheme */
+export interface SignedAuthorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+}
+
+/** Pull the signed authorization out of an exact EVM payment payload */
+export function getAuthorization(paymentPayload: PaymentPayload): SignedAuthorization | undefined {
+  const authorization = (paymentPayload.payload as { authorization?: Record<string, unknown> })?.authorization;
+  if (!authorization) return undefined;
+  const fields = ['from', 'to', 'value', 'validAfter', 'validBefore', 'nonce'] as const;
+  if (!fields.every((f) => authorization[f] !== undefined)) return undefined;
+  return Object.fromEntries(fields.map((f) => [f, String(authorization[f])])) as unknown as SignedAuthorization;
+}
+
+/**
+ * What a dry run signed. The signature and SVM transaction are left out: either one is a
+ * usable payment that anyone holding it could submit, so it never leaves the server
+ */
+export interface DryRunPayment {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  authorization?: SignedAuthorization;
+  /** validBefore as an ISO timestamp */
+  validUntil?: string;
+  /** Header names that would carry the payment */
+  headers: string[];
+}
+
 export interface RequestResult<T = unknown> {
   success: boolean;
   statusCode: number;
   data?: T;
+  /** Set instead of data when the response body was binary and saved to the downloads directory */
+  file?: SavedFile;
   settlement?: {
     transactionHash: string;
     network: string;
     payer: string;
   };
   paymentRequired?: NormalizedPaymentRequired;
+  /** Requirement that was signed and sent with the paid request */
+  requirement?: NormalizedRequirement;
+  /** EIP-3009 authorization that was signed, for matching the settlement on-chain */
+  authorization?: SignedAuthorization;
+  /** Set instead of data when the request ran in dry-run mode */
+  dryRun?: DryRunPayment;
+  /** The streamed body broke off before its end. Such responses are not cached */
+  incomplete?: boolean;
+  /** Set when data came from the paid response cache and nothing was paid */
+  cached?: {
+    storedAt: string;
+    expiresAt: string;
+    settlement?: RequestResult['settlement'];
+  };
+  /** Set when the paid request failed after signing: whether the payment settled, checked on-chain */
+  recovery?: PaymentRecovery;
   error?: {
-    phase: 'initial_request' | 'parse_requirements' | 'create_signature' | 'paid_request' | 'settlement';
+    phase: RequestErrorPhase;
     message: string;
     details?: Record<string, unknown>;
   };
@@ -58,7 +223,84 @@ export interface RequestResult<T = unknown> {
 interface RequestOptions {
   method?: string;
   body?: unknown;
+  /** How body is encoded. Defaults to json */
+  bodyType?: BodyType;
+  /** Asked before local files in the body are read. Without it, uploads are refused */
+  confirmUploads?: UploadConfirmation;
   headers?: Record<string, string>;
+  /** Refuse to sign any requirement priced above this many USDC raw units, or in an asset with no USD value */
+  maxAmount?: bigint;
+  /** Sign the payment but return it instead of sending the paid request */
+  dryRun?: boolean;
+  /** Reuse and store paid responses for this long. 0 or unset disables the cache */
+  cacheTtlSeconds?: number;
+  /** Address sent in client identifier headers. Defaults to the active wallet */
+  walletAddress?: string;
+  /**
+   * Order the requirements left after the price cap, most preferred first. Requirements
+   * left out are not offered to the signer. May throw PaymentRefusedError to stop the payment
+   */
+  rankRequirements?: (accepts: NormalizedRequirement[]) => Promise<NormalizedRequirement[]>;
+  /** What rankRequirements was asked for. Part of the cache key, so another network or strategy misses */
+  selection?: { network?: string; strategy?: string };
+  /** Called with each chunk of an SSE or NDJSON response as it arrives */
+  onStreamChunk?: StreamChunkHandler;
+  /** Aborts the request, e.g. when the MCP client cancels the tool call */
+  signal?: AbortSignal;
+  /** Per-phase limits. Unset ones use DEFAULT_TIMEOUTS */
+  timeouts?: TimeoutsConfig;
+}
+
+/** Attempts for the unpaid first request, which is always safe to repeat */
+const INITIAL_REQUEST_ATTEMPTS = 3;
+/** Attempts for the paid request. Repeats resend the same signed payment, never a new one */
+const PAID_REQUEST_ATTEMPTS = 3;
+/** A paid retry is only started if it gets at least this long before the payment expires */
+const MIN_PAID_ATTEMPT_MS = 5_000;
+/** Re-submissions after the retries fail and the chain shows the payment unsettled */
+const RECOVERY_ROUNDS = 2;
+const RECOVERY_DELAY_MS = 2_000;
+
+/**
+ * When a signed payment stops being usable: the requirement's maxTimeoutSeconds from signing,
+ * or the EIP-3009 validBefore if that comes first
+ */
+function paymentExpiry(payload: PaymentPayload, requirement: NormalizedRequirement | undefined, signedAt: number): number {
+  const limits = [signedAt + (requirement?.maxTimeoutSeconds ?? 0) * 1000];
+  const validBefore = getAuthorization(payload)?.validBefore;
+  if (validBefore) limits.push(Number(validBefore) * 1000);
+  return Math.min(...limits);
+}
+
+function hasSettlement(client: x402HTTPClient, response: Response): boolean {
+  try {
+    client.getPaymentSettleResponse((name) => response.headers.get(name));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Error for a failed fetch: cancelled, timed out, or a network error in the given phase */
+function fetchError(phase: RequestErrorPhase, err: Error, attempts?: number): NonNullable<RequestResult['error']> {
+  if (err instanceof CancelledError) return { phase: 'cancelled', message: err.message };
+  const message = err instanceof TimeoutError ? err.message : `Network error: ${err.message}`;
+  return { phase, message, ...(attempts && attempts > 1 && { details: { attempts } }) };
+}
+
+/**
+ * Fill in the EIP-712 domain (name, version) of registered tokens when a 402 response
+ * leaves it out. The exact EVM scheme cannot sign without it.
+ */
+function withTokenDomains(paymentRequired: PaymentRequired): PaymentRequired {
+  return {
+    ...paymentRequired,
+    accepts: paymentRequired.accepts.map((req) => {
+      if (req.extra?.name && req.extra?.version) return req;
+      const eip712 = getToken(req.network, req.asset)?.eip712;
+      return eip712 ? { ...req, extra: { ...req.extra, ...eip712 } } : req;
+    }),
+  };
 }
 
 /**
@@ -70,41 +312,71 @@ export async function makeRequest<T = unknown>(
   url: string,
   opts: RequestOptions = {}
 ): Promise<RequestResult<T>> {
-  const { method = 'GET', body, headers = {} } = opts;
-  const clientIdentifierHeaders = await getClientIdentifierHeaders();
+  const {
+    method = 'GET',
+    body,
+    bodyType = 'json',
+    confirmUploads,
+    headers = {},
+    maxAmount,
+    dryRun = false,
+    cacheTtlSeconds = 0,
+    walletAddress,
+    rankRequirements,
+    selection,
+    onStreamChunk,
+    signal,
+  } = opts;
+  const timeouts = { ...DEFAULT_TIMEOUTS, ...opts.timeouts };
+  const clientIdentifierHeaders = await getClientIdentifierHeaders(walletAddress);
 
-  // Phase 1: Initial request
-  log.debug(`Making initial request: ${method} ${url}`);
-
-  let firstResponse: Response;
+  let encoded: EncodedBody;
   try {
-    firstResponse = await fetch(url, {
-      method,
-      headers: { 'Content-Type': 'application/json', ...clientIdentifierHeaders, ...headers },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    encoded = await encodeBody(body, bodyType, { confirmUploads });
   } catch (err) {
     return {
       success: false,
       statusCode: 0,
-      error: { phase: 'initial_request', message: `Network error: ${err instanceof Error ? err.message : String(err)}` },
+      error: { phase: 'initial_request', message: `Invalid request body: ${err instanceof Error ? err.message : String(err)}` },
     };
   }
 
+  // Phase 1: Initial request - nothing is paid yet, so failures are retried
+  log.debug(`Making initial request: ${method} ${url}`);
+
+  const first = await fetchWithRetry(
+    url,
+    { method, headers: { ...contentTypeHeader(encoded), ...clientIdentifierHeaders, ...headers }, body: encoded.body },
+    {
+      label: 'Initial request',
+      signal,
+      timeoutMs: () => timeouts.initialRequestSeconds * 1000,
+      maxAttempts: INITIAL_REQUEST_ATTEMPTS,
+    }
+  );
+  if (!first.ok) {
+    return { success: false, statusCode: 0, error: fetchError('initial_request', first.error, first.attempts) };
+  }
+  const { response: firstResponse, deadline: firstDeadline } = first;
+
   // Not 402 - return as-is
   if (firstResponse.status !== 402) {
-    if (firstResponse.ok) {
-      try {
-        return { success: true, statusCode: firstResponse.status, data: (await firstResponse.json()) as T };
-      } catch {
-        return { success: true, statusCode: firstResponse.status, data: (await firstResponse.text()) as unknown as T };
+    try {
+      if (firstResponse.ok) {
+        firstDeadline.start('Response body', timeouts.responseBodySeconds * 1000);
+        const { data, file } = await readResponseBody(firstResponse, url, { onStreamChunk });
+        return { success: true, statusCode: firstResponse.status, data: data as T, file };
       }
+      return {
+        success: false,
+        statusCode: firstResponse.status,
+        error: { phase: 'initial_request', message: `HTTP ${firstResponse.status}: ${await readErrorText(firstResponse)}` },
+      };
+    } catch (err) {
+      return { success: false, statusCode: firstResponse.status, error: fetchError('initial_request', firstDeadline.reason(err)) };
+    } finally {
+      firstDeadline.clear();
     }
-    return {
-      success: false,
-      statusCode: firstResponse.status,
-      error: { phase: 'initial_request', message: `HTTP ${firstResponse.status}: ${await firstResponse.text()}` },
-    };
   }
 
   // Phase 2: Parse payment requirements
@@ -119,11 +391,12 @@ export async function makeRequest<T = unknown>(
       responseBody = await firstResponse.clone().json();
     } catch {
       responseBody = undefined;
+    } finally {
+      firstDeadline.clear();
     }
 
-    rawPaymentRequired = client.getPaymentRequiredResponse(
-      (name) => firstResponse.headers.get(name),
-      responseBody
+    rawPaymentRequired = withTokenDomains(
+      client.getPaymentRequiredResponse((name) => firstResponse.headers.get(name), responseBody)
     );
     paymentRequired = normalizePaymentRequired(rawPaymentRequired);
     log.debug('Payment required:', paymentRequired);
@@ -139,6 +412,85 @@ export async function makeRequest<T = unknown>(
     };
   }
 
+  // Serve an identical paid request from cache instead of paying again. Uploads are never cached
+  const cacheKey =
+    cacheTtlSeconds > 0 && CACHEABLE_METHODS.includes(method.toUpperCase()) && !encoded.hasFiles
+      ? paidResponseKey({
+          method,
+          url,
+          body,
+          bodyType,
+          headers,
+          wallet: walletAddress,
+          accepts: paymentRequired.accepts,
+          ...selection,
+        })
+      : undefined;
+  if (cacheKey) {
+    const hit = await getCachedResponse(cacheKey);
+    if (hit) {
+      log.info(`Serving cached paid response for ${method} ${url} (stored ${hit.storedAt})`);
+      return {
+        success: true,
+        statusCode: hit.statusCode,
+        data: hit.data as T,
+        file: hit.file,
+        paymentRequired,
+        cached: { storedAt: hit.storedAt, expiresAt: hit.expiresAt, settlement: hit.settlement },
+      };
+    }
+  }
+
+  // Indexes of the requirements offered to the signer, in order of preference
+  let offered = paymentRequired.accepts.map((_, i) => i);
+
+  // Enforce price cap - only requirements within the cap are offered to the signer
+  if (maxAmount !== undefined && paymentRequired.accepts.length > 0) {
+    const quotes = paymentRequired.accepts.map((req) => assetAmount(req.network, req.asset, req.amount));
+    const prices = quotes.map(toUsdcUnits);
+    offered = offered.filter((i) => prices[i] !== undefined && prices[i] <= maxAmount);
+
+    if (offered.length === 0) {
+      // Report the cheapest option that has a USD price, or the first one when none has
+      const priced = prices.map((_, i) => i).filter((i) => prices[i] !== undefined);
+      const cheapest = priced.reduce((min, i) => (prices[i]! < prices[min]! ? i : min), priced[0] ?? 0);
+      const quoted = quotes[cheapest];
+      return {
+        success: false,
+        statusCode: 402,
+        paymentRequired,
+        error: {
+          phase: 'price_exceeds_cap',
+          message:
+            priced.length > 0
+              ? `Price ${formatMoney(quoted)} exceeds cap ${formatUSDC(maxAmount)}`
+              : `Price ${formatMoney(quoted)} is not in USDC, so it cannot be checked against the cap ${formatUSDC(maxAmount)}`,
+          details: {
+            ...amountFields('quoted', quoted),
+            ...amountFields('cap', money(maxAmount)),
+          },
+        },
+      };
+    }
+  }
+
+  if (rankRequirements) {
+    try {
+      const ranked = await rankRequirements(offered.map((i) => paymentRequired.accepts[i]));
+      offered = ranked.map((req) => paymentRequired.accepts.indexOf(req)).filter((i) => i >= 0);
+    } catch (err) {
+      if (!(err instanceof PaymentRefusedError)) throw err;
+      return {
+        success: false,
+        statusCode: 402,
+        paymentRequired,
+        error: { phase: err.phase, message: err.message, details: err.details },
+      };
+    }
+  }
+
+  rawPaymentRequired = { ...rawPaymentRequired, accepts: offered.map((i) => rawPaymentRequired.accepts[i]) };
+
   // Phase 3: Create signed payment
   log.debug('Creating payment payload...');
 
@@ -147,6 +499,14 @@ export async function makeRequest<T = unknown>(
     paymentPayload = await client.createPaymentPayload(rawPaymentRequired);
     log.debug(`Payment created for network: ${paymentPayload.accepted?.network}`);
   } catch (err) {
+    if (err instanceof PaymentRefusedError) {
+      return {
+        success: false,
+        statusCode: 402,
+        paymentRequired,
+        error: { phase: err.phase, message: err.message, details: err.details },
+      };
+    }
     return {
       success: false,
       statusCode: 402,
@@ -155,37 +515,196 @@ export async function makeRequest<T = unknown>(
     };
   }
 
+  // v2 payloads echo the accepted requirement; v1 payloads only carry scheme + network
+  const v1Payload = paymentPayload as unknown as { scheme?: string; network?: string };
+  const requirement = paymentPayload.accepted
+    ? normalizePaymentRequired({ ...rawPaymentRequired, accepts: [paymentPayload.accepted] }).accepts[0]
+    : paymentRequired.accepts.find((a) => a.scheme === v1Payload.scheme && a.network === v1Payload.network);
+
   const paymentHeaders = client.encodePaymentSignatureHeader(paymentPayload);
   log.debug('Payment headers:', Object.keys(paymentHeaders).join(', '));
 
+  if (dryRun) {
+    log.info(`Dry run: not sending payment for ${method} ${url}`);
+    const authorization = getAuthorization(paymentPayload);
+    return {
+      success: true,
+      statusCode: 402,
+      paymentRequired,
+      requirement,
+      dryRun: {
+        x402Version: paymentPayload.x402Version,
+        scheme: requirement?.scheme ?? v1Payload.scheme ?? '',
+        network: requirement?.network ?? v1Payload.network ?? '',
+        authorization,
+        validUntil: authorization ? new Date(Number(authorization.validBefore) * 1000).toISOString() : undefined,
+        headers: Object.keys(paymentHeaders),
+      },
+    };
+  }
+
   // Phase 4: Retry with payment
   log.debug('Retrying with payment...');
 
-  let paidResponse: Response;
-  try {
-    paidResponse = await fetch(url, {
-      method,
-      headers: { 'Content-Type': 'application/json', ...clientIdentifierHeaders, ...paymentHeaders, ...headers },
-      body: body ? JSON.stringify(body) : undefined,
-    });
-  } catch (err) {
-    return {
-      success: false,
-      statusCode: 0,
+  const authorization = getAuthorization(paymentPayload);
+  const signedAt = Date.now();
+  const result = await sendPayment<T>(
+    client,
+    {
+      id: authorization?.nonce ?? `0x${randomBytes(32).toString('hex')}`,
+      url,
+      request: {
+        method,
+        headers: { ...contentTypeHeader(encoded), ...clientIdentifierHeaders, ...paymentHeaders, ...headers },
+        body: encoded.body,
+      },
+      payload: paymentPayload,
       paymentRequired,
-      error: { phase: 'paid_request', message: `Network error on paid request: ${err instanceof Error ? err.message : String(err)}` },
-    };
+      requirement,
+      authorization,
+      signedAt,
+      expiresAt: paymentExpiry(paymentPayload, requirement, signedAt),
+      submissions: 0,
+    },
+    { signal, timeouts, onStreamChunk }
+  );
+
+  if (result.success && !result.incomplete && cacheKey) {
+    try {
+      await setCachedResponse(
+        {
+          key: cacheKey,
+          method,
+          url,
+          statusCode: result.statusCode,
+          data: result.data,
+          file: result.file,
+          settlement: result.settlement,
+        },
+        cacheTtlSeconds
+      );
+    } catch (err) {
+      log.error(`Failed to cache paid response: ${err instanceof Error ? err.message : String(err)}`);
+    }
   }
 
+  return result;
+}
+
+interface PaymentSendOptions {
+  signal?: AbortSignal;
+  timeouts: RequestTimeouts;
+  onStreamChunk?: StreamChunkHandler;
+}
+
+/**
+ * Send the paid request with an already signed payment. Repeats resend the same payload:
+ * its nonce can only settle once, so a repeat cannot pay twice. They stop once the payment is about to expire.
+ * Redirects are not followed, since that would forward the payment header past the origin policy
+ */
+function submitPayment(client: x402HTTPClient, payment: PendingPayment, opts: PaymentSendOptions): Promise<FetchOutcome> {
+  return fetchWithRetry(payment.url, { ...payment.request, redirect: 'manual' }, {
+    label: 'Paid request',
+    signal: opts.signal,
+    timeoutMs: () => opts.timeouts.paidRequestSeconds * 1000,
+    maxAttempts: PAID_REQUEST_ATTEMPTS,
+    canRetry: (delayMs) => Date.now() + delayMs + MIN_PAID_ATTEMPT_MS < payment.expiresAt,
+    isFinal: (response) => hasSettlement(client, response),
+  }).then((outcome) => {
+    payment.submissions += outcome.attempts;
+    return outcome;
+  });
+}
+
+/**
+ * Network errors, timeouts and 5xx without a settlement leave it open whether the payment went through.
+ * Once the payload was sent more than once, so does any other failure: a 402 "authorization used"
+ * can mean an earlier attempt that timed out settled it
+ */
+function needsRecovery(client: x402HTTPClient, outcome: FetchOutcome, payment: PendingPayment): boolean {
+  if (!outcome.ok) return !(outcome.error instanceof CancelledError);
+  if (outcome.response.ok || hasSettlement(client, outcome.response)) return false;
+  return outcome.response.status >= 500 || payment.submissions > 1;
+}
+
+function isRedirect(response: Response): boolean {
+  return response.status >= 300 && response.status < 400;
+}
+
+/** Only network errors, timeouts and 5xx are worth re-submitting; the endpoint rejected anything else */
+function canResubmit(outcome: FetchOutcome): boolean {
+  return !outcome.ok || outcome.response.status >= 500;
+}
+
+/**
+ * Send a signed payment and read the response. When the paid request fails in a way that
+ * leaves the payment's fate open, the chain is checked by authorization nonce and the same
+ * payload re-submitted while it is still valid. Payments that may still settle are kept for recover_payment.
+ */
+async function sendPayment<T>(
+  client: x402HTTPClient,
+  payment: PendingPayment,
+  opts: PaymentSendOptions
+): Promise<RequestResult<T>> {
+  const { url, paymentRequired, requirement } = payment;
+  const { signal, timeouts, onStreamChunk } = opts;
+
+  let outcome = await submitPayment(client, payment, opts);
+  let recovery: PaymentRecovery | undefined;
+  for (let round = 0; needsRecovery(client, outcome, payment); round++) {
+    recovery = await checkPayment(payment);
+    const tooLate = Date.now() + RECOVERY_DELAY_MS + MIN_PAID_ATTEMPT_MS >= payment.expiresAt;
+    if (recovery.status === 'settled' || !canResubmit(outcome) || round >= RECOVERY_ROUNDS || tooLate) break;
+
+    if (outcome.ok) {
+      outcome.deadline.clear();
+      await outcome.response.body?.cancel().catch(() => {});
+    }
+    log.info(`Paid request to ${url} failed and the payment has not settled, re-submitting it`);
+    try {
+      await sleep(RECOVERY_DELAY_MS, signal);
+    } catch (err) {
+      outcome = { ok: false, error: err as Error, attempts: 0 };
+      break;
+    }
+    outcome = await submitPayment(client, payment, opts);
+    recovery = undefined;
+  }
+
+  if (recovery?.status === 'pending' || recovery?.status === 'unknown') keepPayment(payment);
+  else forgetPayment(payment.id);
+  const withRecovery = (message: string) => (recovery ? `${message}. ${recovery.message}` : message);
+
+  if (!outcome.ok) {
+    const error = fetchError('paid_request', outcome.error, outcome.attempts);
+    if (error.phase === 'cancelled') {
+      keepPayment(payment);
+      error.message = `Cancelled after the payment was sent. It may still settle; check it with recover_payment (id ${payment.id})`;
+    } else {
+      error.message = withRecovery(error.message);
+    }
+    return { success: false, statusCode: 0, paymentRequired, requirement, recovery, error };
+  }
+  const { response: paidResponse, deadline: paidDeadline } = outcome;
+
   if (!paidResponse.ok) {
+    const text = await readErrorText(paidResponse).catch((err) => `(body unreadable: ${paidDeadline.reason(err).message})`);
+    paidDeadline.clear();
+    const location = isRedirect(paidResponse) ? paidResponse.headers.get('location') : null;
     return {
       success: false,
       statusCode: paidResponse.status,
       paymentRequired,
+      requirement,
+      recovery,
       error: {
         phase: 'paid_request',
-        message: `HTTP ${paidResponse.status} after payment: ${await paidResponse.text()}`,
-        details: { headers: Object.fromEntries(paidResponse.headers.entries()) },
+        message: withRecovery(
+          location
+            ? `HTTP ${paidResponse.status} after payment: redirected to ${new URL(location, url).href}, which was not followed with the payment attached`
+            : `HTTP ${paidResponse.status} after payment: ${text}`
+        ),
+        details: { headers: Object.fromEntries(paidResponse.headers.entries()), attempts: outcome.attempts },
       },
     };
   }
@@ -198,21 +717,78 @@ export async function makeRequest<T = unknown>(
     settlement = {
       transactionHash: settle.transaction,
       network: settle.network,
-      payer: settle.payer || paymentPayload.accepted?.payTo || '',
+      payer: settle.payer || payment.payload.accepted?.payTo || '',
     };
   } catch (err) {
     log.debug(`Could not parse settlement: ${err instanceof Error ? err.message : String(err)}`);
   }
 
-  // Parse response data
-  let data: T;
+  // Parse response data. Streams are forwarded chunk by chunk, binary bodies are saved to disk
+  let paidBody: ResponseBody;
   try {
-    data = (await paidResponse.json()) as T;
-  } catch {
-    data = (await paidResponse.text()) as unknown as T;
+    paidDeadline.start('Response body', timeouts.responseBodySeconds * 1000);
+    paidBody = await readResponseBody(paidResponse, url, { onStreamChunk });
+  } catch (err) {
+    const reason = paidDeadline.reason(err);
+    return {
+      success: false,
+      statusCode: paidResponse.status,
+      settlement,
+      paymentRequired,
+      requirement,
+      error: {
+        phase: reason instanceof CancelledError ? 'cancelled' : 'paid_request',
+        message: `Paid, but the response could not be read: ${reason.message}`,
+      },
+    };
+  } finally {
+    paidDeadline.clear();
   }
 
-  return { success: true, statusCode: paidResponse.status, data, settlement, paymentRequired };
+  return {
+    success: true,
+    statusCode: paidResponse.status,
+    data: paidBody.data as T,
+    file: paidBody.file,
+    ...(paidBody.incomplete && { incomplete: true }),
+    settlement,
+    paymentRequired,
+    requirement,
+    authorization: payment.authorization,
+  };
+}
+
+/**
+ * Re-submit a payment kept after its paid request failed, without signing a new one.
+ * Settled and expired payments are reported from the chain and not sent again.
+ */
+export async function resubmitPayment<T = unknown>(
+  id: string,
+  opts: { signal?: AbortSignal; timeouts?: TimeoutsConfig; onStreamChunk?: StreamChunkHandler } = {}
+): Promise<RequestResult<T>> {
+  const payment = getKeptPayment(id);
+  if (!payment) throw new Error(`No kept payment with id ${id}. Payments are only kept until the server restarts`);
+  const { paymentRequired, requirement } = payment;
+
+  const recovery = await checkPayment(payment);
+  if (!recovery.resubmittable) {
+    if (recovery.status === 'settled' || recovery.status === 'expired') forgetPayment(id);
+    return {
+      success: false,
+      statusCode: 0,
+      paymentRequired,
+      requirement,
+      recovery,
+      error: { phase: 'paid_request', message: recovery.message },
+    };
+  }
+
+  log.info(`Re-submitting kept payment ${id} to ${payment.url}`);
+  return sendPayment<T>(getParseClient(), payment, {
+    signal: opts.signal,
+    timeouts: { ...DEFAULT_TIMEOUTS, ...opts.timeouts },
+    onStreamChunk: opts.onStreamChunk,
+  });
 }
 
 export interface QueryResult {
@@ -231,26 +807,48 @@ export interface QueryResult {
  */
 export async function queryEndpoint(
   url: string,
-  opts: { method?: string; body?: unknown; headers?: Record<string, string> } = {}
+  opts: {
+    method?: string;
+    body?: unknown;
+    bodyType?: BodyType;
+    confirmUploads?: UploadConfirmation;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+    timeouts?: TimeoutsConfig;
+  } = {}
 ): Promise<QueryResult> {
-  const { method = 'GET', body, headers = {} } = opts;
+  const { method = 'GET', body, bodyType = 'json', confirmUploads, headers = {}, signal } = opts;
+  const timeouts = { ...DEFAULT_TIMEOUTS, ...opts.timeouts };
   const client = getParseClient();
   const clientIdentifierHeaders = await getClientIdentifierHeaders();
 
-  let response: Response;
+  let encoded: EncodedBody;
   try {
-    response = await fetch(url, {
-      method,
-      headers: { 'Content-Type': 'application/json', ...clientIdentifierHeaders, ...headers },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    encoded = await encodeBody(body, bodyType, { confirmUploads });
   } catch (err) {
-    return { success: false, statusCode: 0, error: `Network error: ${err instanceof Error ? err.message : String(err)}` };
+    return { success: false, statusCode: 0, error: `Invalid request body: ${err instanceof Error ? err.message : String(err)}` };
+  }
+
+  const outcome = await fetchWithRetry(
+    url,
+    { method, headers: { ...contentTypeHeader(encoded), ...clientIdentifierHeaders, ...headers }, body: encoded.body },
+    {
+      label: 'Request',
+      signal,
+      timeoutMs: () => timeouts.initialRequestSeconds * 1000,
+      maxAttempts: INITIAL_REQUEST_ATTEMPTS,
+    }
+  );
+  if (!outcome.ok) {
+    return { success: false, statusCode: 0, error: fetchError('initial_request', outcome.error).message };
   }
+  const { response, deadline } = outcome;
 
   const rawHeaders = Object.fromEntries(response.headers.entries());
 
   if (response.status !== 402) {
+    deadline.clear();
+    await response.body?.cancel().catch(() => {});
     return { success: true, statusCode: response.status, rawHeaders };
   }
 
@@ -259,6 +857,8 @@ export async function queryEndpoint(
     rawBody = await response.json();
   } catch {
     rawBody = undefined;
+  } finally {
+    deadline.clear();
   }
 
   try {
@@ -0,0 +1,168 @@
+/**
+ * Payment recovery - a signed payment whose paid request failed
+ *
+ * The endpoint may have settled the payment before failing, or never seen it. The signed
+ * payload is kept while it can still be used, the chain is asked whether its authorization
+ * nonce was used, and the same payload is re-submitted instead of signing a new one.
+ * Re-submitting cannot pay twice: a nonce settles at most once.
+ */
+
+import type { PaymentPayload } from '@x402/core/types';
+import { checkAuthorization, type AuthorizationState } from '../settlement';
+import type { SignedAuthorization } from './client';
+import type { NormalizedPaymentRequired, NormalizedRequirement } from './protocol';
+
+/** Chain clocks and pending transactions: an unused authorization counts as expired this long after validBefore */
+const SETTLE_MARGIN_MS = 30_000;
+/** Kept payments stay listed this long after they stop being usable, so their outcome can still be checked */
+const RETENTION_MS = 60 * 60 * 1000;
+
+export interface PendingPayment {
+  /** Authorization nonce, or a random id for payloads without one (Solana) */
+  id: string;
+  url: string;
+  /** Paid request as sent, payment headers included */
+  request: { method: string; headers: Record<string, string>; body?: BodyInit };
+  payload: PaymentPayload;
+  paymentRequired: NormalizedPaymentRequired;
+  requirement?: NormalizedRequirement;
+  authorization?: SignedAuthorization;
+  signedAt: number;
+  /** Re-submissions stop after this: the endpoint would reject the payment as expired */
+  expiresAt: number;
+  /** Paid requests sent with this payload, retries included */
+  submissions: number;
+}
+
+export type RecoveryStatus = 'settled' | 'expired' | 'pending' | 'unknown';
+
+export interface PaymentRecovery {
+  id: string;
+  /**
+   * - settled: the authorization was used on-chain
+   * - expired: it can no longer be used and was not
+   * - pending: not used yet, but still valid and may settle
+   * - unknown: the chain could not be checked
+   */
+  status: RecoveryStatus;
+  /** Unset when unknown */
+  fundsMoved?: boolean;
+  transactionHash?: string;
+  /** When the payment can last be re-submitted */
+  validUntil: string;
+  submissions: number;
+  resubmittable: boolean;
+  message: string;
+}
+
+const kept = new Map<string, PendingPayment>();
+
+function prune(now: number): void {
+  for (const [id, payment] of kept) {
+    if (payment.expiresAt + RETENTION_MS < now) kept.delete(id);
+  }
+}
+
+/** Keep a payment for recover_payment */
+export function keepPayment(payment: PendingPayment): void {
+  prune(Date.now());
+  kept.set(payment.id, payment);
+}
+
+export function getKeptPayment(id: string): PendingPayment | undefined {
+  prune(Date.now());
+  return kept.get(id);
+}
+
+export function forgetPayment(id: string): void {
+  kept.delete(id);
+}
+
+export function listKeptPayments(): PendingPayment[] {
+  prune(Date.now());
+  return [...kept.values()];
+}
+
+/** Kept payments that may still settle: their authorization can still be used, as far as the chain is known */
+export function outstandingPayments(now = Date.now()): PendingPayment[] {
+  prune(now);
+  return [...kept.values()].filter((payment) => now <= usableUntil(payment) + SETTLE_MARGIN_MS);
+}
+
+/** Last moment the authorization could be used on-chain: validBefore, or the requirement's timeout without one */
+function usableUntil(payment: PendingPayment): number {
+  return payment.authorization ? Number(payment.authorization.validBefore) * 1000 : payment.expiresAt;
+}
+
+/** Classify a payment from its on-chain state, or from the error that stopped the lookup */
+export function recoveryStatus(
+  payment: PendingPayment,
+  onChain: AuthorizationState | Error,
+  now = Date.now()
+): PaymentRecovery {
+  const validUntil = new Date(payment.expiresAt).toISOString();
+  const resubmittable = now < payment.expiresAt;
+  const base = { id: payment.id, validUntil, submissions: payment.submissions };
+  const resubmitHint = resubmittable
+    ? `Re-submit it with recover_payment (id ${payment.id}) before ${validUntil} instead of paying again`
+    : 'It can no longer be re-submitted';
+
+  if (onChain instanceof Error) {
+    return {
+      ...base,
+      status: 'unknown',
+      resubmittable,
+      message: `Could not check the payment on-chain (${onChain.message}), so funds may have moved. ${resubmitHint}`,
+    };
+  }
+
+  if (onChain.used) {
+    return {
+      ...base,
+      status: 'settled',
+      fundsMoved: true,
+      ...(onChain.transactionHash && { transactionHash: onChain.transactionHash }),
+      resubmittable: false,
+      message: `The payment settled on-chain${onChain.transactionHash ? ` in ${onChain.transactionHash}` : ''}, but the response was lost. Do not pay again`,
+    };
+  }
+
+  if (now > usableUntil(payment) + SETTLE_MARGIN_MS) {
+    return {
+      ...base,
+      status: 'expired',
+      fundsMoved: false,
+      resubmittable: false,
+      message: 'The payment expired without settling. No funds moved',
+    };
+  }
+
+  return {
+    ...base,
+    status: 'pending',
+    fundsMoved: false,
+    resubmittable,
+    message: `The payment has not settled yet and is still valid, so the endpoint may still settle it. ${resubmitHint}`,
+  };
+}
+
+/** Look the payment's authorization nonce up on-chain */
+export async function checkPayment(payment: PendingPayment): Promise<PaymentRecovery> {
+  const { authorization, requirement } = payment;
+  if (!authorization || !requirement) {
+    return recoveryStatus(payment, new Error('the payment has no EIP-3009 authorization to look up'));
+  }
+
+  let onChain: AuthorizationState | Error;
+  try {
+    onChain = await checkAuthorization({
+      network: requirement.network,
+      asset: requirement.asset,
+      authorizer: authorization.from,
+      nonce: authorization.nonce,
+    });
+  } catch (err) {
+    onChain = err instanceof Error ? err : new Error(String(err));
+  }
+  return recoveryStatus(payment, onChain);
+}
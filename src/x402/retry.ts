@@ -0,0 +1,166 @@
+/**
+ * Timeouts, cancellation and retries for the HTTP side of the payment flow
+ *
+ * Every attempt runs under a Deadline: it follows the caller's AbortSignal (the MCP
+ * request being cancelled) and aborts itself when the current phase runs out of time.
+ */
+
+import { log } from '../log';
+import type { TimeoutsConfig } from '../config';
+
+export type RequestTimeouts = Required<TimeoutsConfig>;
+
+export const DEFAULT_TIMEOUTS: RequestTimeouts = {
+  initialRequestSeconds: 30,
+  paidRequestSeconds: 60,
+  responseBodySeconds: 300,
+};
+
+/** Responses worth another attempt: rate limited or a gateway that gave up */
+export const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+
+export class TimeoutError extends Error {
+  constructor(
+    readonly label: string,
+    readonly ms: number
+  ) {
+    super(`${label} timed out after ${ms / 1000}s`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Request was cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+/** Abort signal for one attempt, with a clock that can be restarted per phase */
+export class Deadline {
+  private readonly controller = new AbortController();
+  private timer?: ReturnType<typeof setTimeout>;
+  private readonly onParentAbort = () => this.controller.abort(new CancelledError());
+
+  constructor(private readonly parent?: AbortSignal) {
+    if (parent?.aborted) this.controller.abort(new CancelledError());
+    else parent?.addEventListener('abort', this.onParentAbort, { once: true });
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** Abort with a TimeoutError after ms, replacing any earlier clock */
+  start(label: string, ms: number): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.controller.abort(new TimeoutError(label, ms)), ms);
+  }
+
+  clear(): void {
+    clearTimeout(this.timer);
+    this.parent?.removeEventListener('abort', this.onParentAbort);
+  }
+
+  /** Why an operation under this deadline failed: the abort reason if it was aborted, else the error itself */
+  reason(err: unknown): Error {
+    const reason = this.signal.aborted ? this.signal.reason : err;
+    return reason instanceof Error ? reason : new Error(String(reason));
+  }
+}
+
+/** Exponential backoff with jitter. Retry-After (seconds or HTTP date) wins when given, up to the cap */
+export function retryDelay(attempt: number, retryAfter?: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : new Date(retryAfter).getTime() - Date.now();
+    if (Number.isFinite(ms) && ms >= 0) return Math.min(ms, MAX_DELAY_MS);
+  }
+  const exponential = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/** Wait, or reject with CancelledError as soon as the signal aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface RetryOptions {
+  /** Used in timeout messages ("Paid request timed out after 60s") */
+  label: string;
+  /** Caller's signal, e.g. the MCP request's */
+  signal?: AbortSignal;
+  /** Time allowed until response headers, per attempt */
+  timeoutMs: () => number;
+  maxAttempts: number;
+  /** Whether another attempt may start after waiting delayMs */
+  canRetry?: (delayMs: number) => boolean;
+  /** Responses with a retryable status that must be returned as-is, e.g. one that carries a settlement */
+  isFinal?: (response: Response) => boolean;
+}
+
+export type FetchOutcome =
+  | {
+      ok: true;
+      response: Response;
+      /** Still running, so the body read is covered. The caller restarts or clears it */
+      deadline: Deadline;
+      attempts: number;
+    }
+  | { ok: false; error: Error; attempts: number };
+
+/**
+ * fetch with a per-attempt deadline. Network errors, timeouts and RETRYABLE_STATUSES
+ * are retried with backoff while attempts remain and canRetry agrees. Cancellation is never retried.
+ * A retryable status on the last attempt is returned as a response, not an error.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit, opts: RetryOptions): Promise<FetchOutcome> {
+  for (let attempt = 1; ; attempt++) {
+    const deadline = new Deadline(opts.signal);
+    deadline.start(opts.label, opts.timeoutMs());
+
+    let response: Response | undefined;
+    let failure: Error;
+    try {
+      response = await fetch(url, { ...init, signal: deadline.signal });
+      if (!RETRYABLE_STATUSES.includes(response.status) || opts.isFinal?.(response)) {
+        return { ok: true, response, deadline, attempts: attempt };
+      }
+      failure = new Error(`HTTP ${response.status}`);
+    } catch (err) {
+      deadline.clear();
+      failure = deadline.reason(err);
+      if (failure instanceof CancelledError) return { ok: false, error: failure, attempts: attempt };
+    }
+
+    const delay = retryDelay(attempt, response?.headers.get('retry-after'));
+    if (attempt >= opts.maxAttempts || (opts.canRetry && !opts.canRetry(delay))) {
+      return response ? { ok: true, response, deadline, attempts: attempt } : { ok: false, error: failure, attempts: attempt };
+    }
+    if (response) {
+      deadline.clear();
+      await response.body?.cancel().catch(() => {});
+    }
+
+    log.info(`${opts.label} to ${url} failed (${failure.message}), retrying in ${delay}ms`);
+    try {
+      await sleep(delay, opts.signal);
+    } catch (err) {
+      return { ok: false, error: err as Error, attempts: attempt };
+    }
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Requirement selection - which of the accepted payment options gets signed
+ *
+ * The cheapest strategy reads the wallet's balance for every accepted network
+ * and asset and puts the cheapest option it can fund first, so an endpoint that
+ * lists Base first is still paid from another chain it accepts when the funds sit there.
+ * Prices are only compared when every option is in the same asset (USDC on any chain
+ * counts as one); a mix such as USDC and EURC has no exchange rate here, so it is not ranked by price.
+ */
+
+import { assetAmount, getChainName, isSupportedNetwork, toCaip2 } from '../networks';
+import { getAssetBalance } from '../balance';
+import { amountFields, type Money } from '../money';
+import { PaymentRefusedError } from './client';
+import type { NormalizedRequirement } from './protocol';
+
+export const SELECTION_STRATEGIES = ['cheapest', 'preferred', 'first'] as const;
+export type SelectionStrategy = (typeof SELECTION_STRATEGIES)[number];
+
+export interface RequirementOption {
+  requirement: NormalizedRequirement;
+  price: Money;
+  /** Wallet balance of the requirement's asset, raw units. Unset if it was not read */
+  balance?: bigint;
+  /** Unset when the balance is unknown */
+  fundable?: boolean;
+  balanceError?: string;
+}
+
+/** Wallet balance of an asset in raw units, read from the chain */
+export type BalanceReader = (address: string, network: string, asset: string) => Promise<bigint>;
+
+export interface SelectionOptions {
+  strategy: SelectionStrategy;
+  /** Only pay on this network */
+  network?: string;
+  /** Tie-breaker, and the first choice for the preferred strategy */
+  preferredNetwork?: string;
+  /** Wallet address that pays on a network (EVM or Solana) */
+  addressFor: (network: string) => string;
+  /** Defaults to an RPC read */
+  readBalance?: BalanceReader;
+}
+
+function sameNetwork(a: string, b: string): boolean {
+  return toCaip2(a) === toCaip2(b);
+}
+
+/** Compare two prices in the same asset, each in its own decimals */
+export function comparePrices(a: Money, b: Money): number {
+  const left = a.raw * 10n ** BigInt(b.decimals);
+  const right = b.raw * 10n ** BigInt(a.decimals);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/** Read the wallet's balance of each requirement's asset. Lookups that fail leave funding unknown */
+export async function checkFunding(
+  accepts: NormalizedRequirement[],
+  addressFor: (network: string) => string,
+  readBalance: BalanceReader = getAssetBalance
+): Promise<RequirementOption[]> {
+  const lookups = new Map<string, Promise<bigint>>();
+
+  return Promise.all(
+    accepts.map(async (requirement): Promise<RequirementOption> => {
+      const network = toCaip2(requirement.network);
+      const price = assetAmount(network, requirement.asset, requirement.amount);
+      if (!isSupportedNetwork(network)) {
+        return { requirement, price, balanceError: `Unsupported network: ${requirement.network}` };
+      }
+
+      const key = `${network}/${requirement.asset}`;
+      if (!lookups.has(key)) lookups.set(key, readBalance(addressFor(network), network, requirement.asset));
+      try {
+        const balance = await lookups.get(key)!;
+        return { requirement, price, balance, fundable: balance >= price.raw };
+      } catch (err) {
+        return { requirement, price, balanceError: err instanceof Error ? err.message : String(err) };
+      }
+    })
+  );
+}
+
+/** Whether prices can be ranked against each other: all in one asset, by symbol */
+export function pricesComparable(prices: Money[]): boolean {
+  return new Set(prices.map((price) => price.symbol.toUpperCase())).size <= 1;
+}
+
+const fundingRank = (option: RequirementOption): number =>
+  option.fundable === true ? 0 : option.fundable === undefined ? 1 : 2;
+
+/**
+ * Order options by strategy. Sorting is stable, so ties keep the endpoint's order.
+ * - cheapest: fundable before unknown before unfundable, then by price when pricesComparable, then the preferred network
+ * - preferred: the preferred network first
+ * - first: the endpoint's order
+ */
+export function rankOptions(
+  options: RequirementOption[],
+  strategy: SelectionStrategy,
+  preferredNetwork?: string
+): RequirementOption[] {
+  if (strategy === 'first') return [...options];
+
+  const preference = (option: RequirementOption) =>
+    preferredNetwork && sameNetwork(option.requirement.network, preferredNetwork) ? 0 : 1;
+  const byPrice = pricesComparable(options.map((option) => option.price));
+  const price = (a: RequirementOption, b: RequirementOption) => (byPrice ? comparePrices(a.price, b.price) : 0);
+
+  return [...options].sort((a, b) =>
+    strategy === 'cheapest'
+      ? fundingRank(a) - fundingRank(b) || price(a, b) || preference(a) - preference(b)
+      : preference(a) - preference(b)
+  );
+}
+
+/** Option as shown in tool responses */
+export function describeOption(option: RequirementOption): Record<string, unknown> {
+  const network = toCaip2(option.requirement.network);
+  return {
+    network,
+    networkName: getChainName(network),
+    scheme: option.requirement.scheme,
+    asset: option.requirement.asset,
+    ...amountFields('price', option.price),
+    ...(option.balance !== undefined && amountFields('balance', { ...option.price, raw: option.balance })),
+    ...(option.fundable !== undefined && { fundable: option.fundable }),
+    ...(option.balanceError && { balanceError: option.balanceError }),
+  };
+}
+
+/**
+ * Rank the accepted requirements for signing. The signer takes the first one that
+ * passes its scheme and policy filters.
+ *
+ * Throws PaymentRefusedError when the endpoint does not accept the requested network,
+ * or when the cheapest strategy finds no option the wallet can fund.
+ */
+export async function selectRequirements(
+  accepts: NormalizedRequirement[],
+  options: SelectionOptions
+): Promise<RequirementOption[]> {
+  const { strategy, network, preferredNetwork, addressFor, readBalance } = options;
+
+  const candidates = network ? accepts.filter((req) => sameNetwork(req.network, network)) : accepts;
+  if (candidates.length === 0) {
+    throw new PaymentRefusedError(
+      'select_requirement',
+      `Endpoint does not accept payment on ${getChainName(network!)} (${toCaip2(network!)})`,
+      { network: toCaip2(network!), accepted: [...new Set(accepts.map((req) => toCaip2(req.network)))] }
+    );
+  }
+
+  if (strategy !== 'cheapest') {
+    const unchecked = candidates.map((requirement) => ({
+      requirement,
+      price: assetAmount(requirement.network, requirement.asset, requirement.amount),
+    }));
+    return rankOptions(unchecked, strategy, preferredNetwork);
+  }
+
+  const funding = await checkFunding(candidates, addressFor, readBalance);
+  // Ranked without the unfundable options, so an asset the wallet cannot pay in does not stop price ranking
+  const payable = funding.filter((option) => option.fundable !== false);
+  if (payable.length === 0) {
+    throw new PaymentRefusedError('insufficient_balance', 'Wallet cannot fund any of the accepted payment options', {
+      options: funding.map((option) => ({
+        ...describeOption(option),
+        ...amountFields('shortfall', { ...option.price, raw: option.price.raw - option.balance! }),
+      })),
+    });
+  }
+  return rankOptions(payable, strategy, preferredNetwork);
+}
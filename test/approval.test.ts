@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { approvalGuard, needsApproval } from '../src/approval';
+import { money } from '../src/money';
+import { createClient, makeRequest } from '../src/x402/client';
+import { paywall, type Paywall } from './fixtures';
+
+/** $0.01 in USDC raw units */
+const THRESHOLD = 10_000n;
+
+describe('needsApproval', () => {
+  it('asks only for payments strictly above the threshold', () => {
+    expect(needsApproval(money(9_999n), THRESHOLD)).toBe(false);
+    expect(needsApproval(money(10_000n), THRESHOLD)).toBe(false);
+    expect(needsApproval(money(10_001n), THRESHOLD)).toBe(true);
+  });
+
+  it('compares USDC with other decimals in USDC units, rounding up', () => {
+    const usdc18 = { decimals: 18, symbol: 'USDC' };
+    expect(needsApproval(money(10n ** 16n, usdc18), THRESHOLD)).toBe(false);
+    expect(needsApproval(money(10n ** 16n + 1n, usdc18), THRESHOLD)).toBe(true);
+  });
+
+  it('asks for any payment not in USDC', () => {
+    expect(needsApproval(money(1n, { decimals: 2, symbol: 'TOK' }), THRESHOLD)).toBe(true);
+  });
+
+  it('never asks without a threshold', () => {
+    expect(needsApproval(money(10n ** 12n), undefined)).toBe(false);
+    expect(needsApproval(money(1n, { decimals: 2, symbol: 'TOK' }), undefined)).toBe(false);
+  });
+});
+
+describe('approvalGuard', () => {
+  const account = privateKeyToAccount(generatePrivateKey());
+  let wall: Paywall;
+  let asked: number;
+
+  /** MCP server whose client answers every elicitation with `reply`, or cannot elicit at all */
+  function mcpServer(reply?: { action: string; content?: Record<string, unknown> }): McpServer {
+    return {
+      server: {
+        getClientCapabilities: () => (reply ? { elicitation: {} } : {}),
+        elicitInput: async () => {
+          asked++;
+          return reply;
+        },
+      },
+    } as unknown as McpServer;
+  }
+
+  function pay(server: McpServer, path: string) {
+    const url = `${wall.url}${path}`;
+    return makeRequest(createClient(account, { guards: [approvalGuard(server, url, THRESHOLD)] }), url);
+  }
+
+  beforeAll(() => {
+    // $0.05 in the test chain's 18-decimal USDC
+    wall = paywall([{ amount: String(5n * 10n ** 16n) }]);
+  });
+
+  afterAll(() => wall.stop());
+
+  it.each([
+    ['unsupported', undefined, 'does not support elicitation'],
+    ['declined', { action: 'decline' }, 'Payment was declined'],
+    ['declined', { action: 'accept', content: { approve: false } }, 'Payment was declined'],
+    ['cancelled', { action: 'cancel' }, 'Payment approval was cancelled'],
+  ] as const)('refuses before signing when approval is %s', async (reason, reply, message) => {
+    asked = 0;
+    const path = `/${reason}-${reply?.action ?? 'none'}`;
+    const result = await pay(mcpServer(reply), path);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.phase).toBe('approval_denied');
+    expect(result.error?.message).toContain(message);
+    expect(result.error?.details).toMatchObject({ reason, amount: '$0.05', amountRaw: String(5n * 10n ** 16n) });
+    expect(asked).toBe(reply ? 1 : 0);
+
+    expect(result.authorization).toBeUndefined();
+    expect(result.dryRun).toBeUndefined();
+    expect(wall.paid[path]).toBeUndefined();
+  });
+
+  it('pays once approved', async () => {
+    const result = await pay(mcpServer({ action: 'accept', content: { approve: true } }), '/approved');
+    expect(result.success).toBe(true);
+    expect(result.authorization?.value).toBe(String(5n * 10n ** 16n));
+    expect(wall.paid['/approved']).toBe(1);
+  });
+});
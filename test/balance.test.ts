@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { getUSDCBalance, usdcTotals, type NetworkBalance } from '../src/balance';
+import { money } from '../src/money';
+import { TEST_NETWORK, TEST_RPC_ENV, TEST_USDC } from './fixtures';
+
+const OWNER = '0x0000000000000000000000000000000000000001';
+
+describe('getUSDCBalance', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  /** balanceOf result, raw units */
+  const held = 2_500_000_000_000_000_000n;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const call = (await req.json()) as { id: number; method: string };
+        const result = call.method === 'eth_call' ? `0x${held.toString(16).padStart(64, '0')}` : '0x7a69';
+        return Response.json({ jsonrpc: '2.0', id: call.id, result });
+      },
+    });
+    process.env[TEST_RPC_ENV] = `http://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    delete process.env[TEST_RPC_ENV];
+  });
+
+  it("formats a config USDC in the token's own decimals", async () => {
+    const balance = await getUSDCBalance(OWNER, TEST_NETWORK);
+    expect(balance).toMatchObject({
+      balance: held,
+      decimals: 18,
+      formatted: '$2.50',
+      network: TEST_NETWORK,
+      usdcAddress: TEST_USDC,
+    });
+    expect(balance.amount).toEqual({ raw: held, decimals: 18, symbol: 'USDC' });
+  });
+});
+
+describe('usdcTotals', () => {
+  function holding(network: string, testnet: boolean, raw: bigint, decimals: number): NetworkBalance {
+    const amount = money(raw, { decimals, symbol: 'USDC' });
+    return {
+      network,
+      networkName: network,
+      testnet,
+      address: OWNER,
+      usdc: { balance: raw, amount, formatted: '', decimals, network, usdcAddress: TEST_USDC },
+      tokens: [],
+      errors: [],
+    };
+  }
+
+  it('adds balances in USDC units whatever decimals each token has', () => {
+    const totals = usdcTotals([
+      holding('eip155:8453', false, 1_000_000n, 6),
+      holding('eip155:10', false, 2n * 10n ** 18n, 18),
+      holding('eip155:84532', true, 500_000n, 6),
+      holding(TEST_NETWORK, true, 10n ** 18n, 18),
+      { ...holding('eip155:1', false, 0n, 6), usdc: undefined },
+    ]);
+    expect(totals).toEqual({ mainnet: 3_000_000n, testnet: 1_500_000n });
+  });
+});
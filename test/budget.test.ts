@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'bun:test';
+import type { PaymentPayload } from '@x402/core/types';
+import { findBudgetViolation, reserveBudget } from '../src/budget';
+import type { LedgerEntry } from '../src/ledger';
+import { money, USDC } from '../src/money';
+import { forgetPayment, keepPayment, type PendingPayment } from '../src/x402/recovery';
+
+const NOW = new Date('2025-06-15T12:00:00.000Z');
+
+const usdc = (raw: bigint) => money(raw, USDC);
+
+function entry(amount: string, hoursAgo: number): LedgerEntry {
+  return {
+    timestamp: new Date(NOW.getTime() - hoursAgo * 60 * 60 * 1000).toISOString(),
+    url: 'https://api.example.com/data',
+    method: 'GET',
+    amount,
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    network: 'eip155:8453',
+    payTo: '0x1234567890123456789012345678901234567890',
+    payer: '0x0000000000000000000000000000000000000001',
+    transactionHash: '0xabc',
+    status: 'settled',
+  };
+}
+
+describe('findBudgetViolation', () => {
+  const entries = [entry('3000000', 2), entry('4000000', 48), entry('10000000', 24 * 20)];
+
+  it('allows payments within all budgets', () => {
+    const budgets = { daily: '$5', weekly: '$10', monthly: '$50' };
+    expect(findBudgetViolation(entries, budgets, usdc(1_000_000n), NOW)).toBeUndefined();
+  });
+
+  it('reports the daily window first', () => {
+    const violation = findBudgetViolation(entries, { daily: '$5', weekly: '$5' }, usdc(2_500_000n), NOW);
+    expect(violation?.window).toBe('daily');
+    expect(violation?.spent).toBe(3_000_000n);
+    expect(violation?.limit).toBe(5_000_000n);
+  });
+
+  it('uses rolling windows', () => {
+    // 3 + 4 spent in the last 7 days; 17 in the last 30
+    expect(findBudgetViolation(entries, { weekly: '$8' }, usdc(1_500_000n), NOW)?.window).toBe('weekly');
+    expect(findBudgetViolation(entries, { monthly: '$18' }, usdc(1_500_000n), NOW)?.window).toBe('monthly');
+  });
+
+  it('allows spending up to exactly the limit', () => {
+    expect(findBudgetViolation(entries, { daily: '$5' }, usdc(2_000_000n), NOW)).toBeUndefined();
+  });
+
+  it('ignores unset windows', () => {
+    expect(findBudgetViolation(entries, {}, usdc(100_000_000n), NOW)).toBeUndefined();
+  });
+
+  it('rescales USDC with other decimals', () => {
+    // 2 USDC at 18 decimals is within the $5 daily budget, while its raw units are not
+    const eighteen = money(2_000_000_000_000_000_000n, { decimals: 18, symbol: 'USDC' });
+    expect(findBudgetViolation(entries, { daily: '$5' }, eighteen, NOW)).toBeUndefined();
+    const three = money(3_000_000_000_000_000_000n, { decimals: 18, symbol: 'USDC' });
+    expect(findBudgetViolation(entries, { daily: '$5' }, three, NOW)?.window).toBe('daily');
+  });
+
+  it('refuses assets with no USD value while a budget is set', () => {
+    const weth = money(1n, { decimals: 18, symbol: 'WETH' });
+    expect(findBudgetViolation(entries, { daily: '$5' }, weth, NOW)).toMatchObject({ window: 'daily', notUsdc: true });
+    expect(findBudgetViolation(entries, {}, weth, NOW)).toBeUndefined();
+  });
+});
+
+describe('reserveBudget', () => {
+  // Payments kept by other test files can hold a few cents, so amounts leave room for them
+  const budgets = { daily: '$5' };
+
+  it('refuses the second of two concurrent payments that together exceed the budget', async () => {
+    const [first, second] = await Promise.all([
+      reserveBudget(usdc(3_000_000n), budgets),
+      reserveBudget(usdc(3_000_000n), budgets),
+    ]);
+    expect(first.violation).toBeUndefined();
+    expect(second.violation).toMatchObject({ window: 'daily', spent: 0n });
+    expect(second.violation!.reserved).toBeGreaterThanOrEqual(3_000_000n);
+
+    first.release();
+    const third = await reserveBudget(usdc(3_000_000n), budgets);
+    expect(third.violation).toBeUndefined();
+    third.release();
+  });
+
+  it('counts kept payments that may still settle', async () => {
+    const now = Date.now();
+    const payment: PendingPayment = {
+      id: `0x${'d'.repeat(64)}`,
+      url: 'https://api.example.com/paid',
+      request: { method: 'GET', headers: {} },
+      payload: { x402Version: 2, payload: {} } as unknown as PaymentPayload,
+      paymentRequired: { x402Version: 2, accepts: [] } as unknown as PendingPayment['paymentRequired'],
+      requirement: {
+        scheme: 'exact',
+        network: 'eip155:8453',
+        amount: '4000000',
+        asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        payTo: '0x0000000000000000000000000000000000000002',
+        maxTimeoutSeconds: 60,
+      },
+      signedAt: now,
+      expiresAt: now + 60_000,
+      submissions: 2,
+    };
+    keepPayment(payment);
+    expect((await reserveBudget(usdc(2_000_000n), budgets)).violation?.window).toBe('daily');
+
+    forgetPayment(payment.id);
+    const check = await reserveBudget(usdc(2_000_000n), budgets);
+    expect(check.violation).toBeUndefined();
+    check.release();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'bun:test';
+import { paidResponseKey } from '../src/cache';
+import type { NormalizedRequirement } from '../src/x402/protocol';
+
+function accept(network: string, amount: string): NormalizedRequirement {
+  return {
+    scheme: 'exact',
+    network,
+    amount,
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    payTo: '0x1234567890123456789012345678901234567890',
+    maxTimeoutSeconds: 300,
+  };
+}
+
+describe('paidResponseKey', () => {
+  const base = {
+    method: 'POST',
+    url: 'https://api.example.com/search',
+    body: { q: 'x402' },
+    headers: { Authorization: 'Bearer a', 'X-Trace': '1' },
+    wallet: '0x0000000000000000000000000000000000000001',
+    accepts: [accept('eip155:8453', '10000')],
+  };
+
+  it('is stable for identical requests', () => {
+    expect(paidResponseKey(base)).toBe(paidResponseKey({ ...base, body: { q: 'x402' } }));
+    expect(paidResponseKey(base)).toBe(paidResponseKey({ ...base, method: 'post' }));
+    expect(paidResponseKey(base)).toBe(
+      paidResponseKey({ ...base, headers: { 'x-trace': '1', authorization: 'Bearer a' } })
+    );
+  });
+
+  it('changes with the request headers and the paying wallet', () => {
+    const key = paidResponseKey(base);
+    expect(paidResponseKey({ ...base, headers: { Authorization: 'Bearer b', 'X-Trace': '1' } })).not.toBe(key);
+    expect(paidResponseKey({ ...base, headers: {} })).not.toBe(key);
+    expect(paidResponseKey({ ...base, wallet: '0x0000000000000000000000000000000000000002' })).not.toBe(key);
+  });
+
+  it('changes with body, URL, method and price', () => {
+    const key = paidResponseKey(base);
+    expect(paidResponseKey({ ...base, body: { q: 'other' } })).not.toBe(key);
+    expect(paidResponseKey({ ...base, url: 'https://api.example.com/other' })).not.toBe(key);
+    expect(paidResponseKey({ ...base, method: 'GET' })).not.toBe(key);
+    expect(paidResponseKey({ ...base, accepts: [accept('eip155:8453', '20000')] })).not.toBe(key);
+  });
+
+  it('changes with the requested network and selection strategy', () => {
+    const key = paidResponseKey(base);
+    expect(paidResponseKey({ ...base, network: 'eip155:137' })).not.toBe(key);
+    expect(paidResponseKey({ ...base, strategy: 'first' })).not.toBe(paidResponseKey({ ...base, strategy: 'cheapest' }));
+    expect(paidResponseKey({ ...base, network: 'base' })).toBe(paidResponseKey({ ...base, network: 'eip155:8453' }));
+  });
+
+  it('ignores accept order and network naming', () => {
+    const two = [accept('eip155:8453', '10000'), accept('eip155:137', '10000')];
+    expect(paidResponseKey({ ...base, accepts: two })).toBe(
+      paidResponseKey({ ...base, accepts: [...two].reverse() })
+    );
+    expect(paidResponseKey({ ...base, accepts: [accept('base', '10000')] })).toBe(paidResponseKey(base));
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeAll, afterAll, setSystemTime } from 'bun:test';
+import type { PaymentPayload } from '@x402/core/types';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { createClient, getAuthorization, makeRequest, type PaymentGuard } from '../src/x402/client';
+import type { NormalizedRequirement } from '../src/x402/protocol';
+import { paywall, TEST_NETWORK, TEST_TOKEN, type Paywall } from './fixtures';
+
+const account = privateKeyToAccount(generatePrivateKey());
+
+function payload(inner: Record<string, unknown>): PaymentPayload {
+  return { x402Version: 2, payload: inner } as unknown as PaymentPayload;
+}
+
+describe('getAuthorization', () => {
+  it('extracts EIP-3009 authorization fields as strings', () => {
+    const result = getAuthorization(
+      payload({
+        signature: '0xsig',
+        authorization: {
+          from: '0x0000000000000000000000000000000000000001',
+          to: '0x1234567890123456789012345678901234567890',
+          value: '10000',
+          validAfter: '0',
+          validBefore: 1750000000,
+          nonce: '0xabcdef',
+        },
+      })
+    );
+
+    expect(result).toEqual({
+      from: '0x0000000000000000000000000000000000000001',
+      to: '0x1234567890123456789012345678901234567890',
+      value: '10000',
+      validAfter: '0',
+      validBefore: '1750000000',
+      nonce: '0xabcdef',
+    });
+  });
+
+  it('returns undefined without an authorization', () => {
+    expect(getAuthorization(payload({ transaction: 'base64tx' }))).toBeUndefined();
+  });
+
+  it('returns undefined when fields are missing', () => {
+    expect(getAuthorization(payload({ authorization: { from: '0x1', value: '1' } }))).toBeUndefined();
+  });
+});
+
+describe('makeRequest price cap', () => {
+  let wall: Paywall;
+  let signed: number;
+  /** Runs right before signing, so it counts every payment that got that far */
+  const countSigning: PaymentGuard = async () => {
+    signed++;
+  };
+  const client = createClient(account, { guards: [countSigning] });
+
+  beforeAll(() => {
+    // $0.05 in the test chain's 18-decimal USDC
+    wall = paywall([{ amount: String(5n * 10n ** 16n) }]);
+  });
+
+  afterAll(() => wall.stop());
+
+  it('refuses a quote above the cap before signing', async () => {
+    signed = 0;
+    const result = await makeRequest(client, `${wall.url}/capped`, { maxAmount: 10_000n });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.phase).toBe('price_exceeds_cap');
+    expect(result.error?.message).toBe('Price $0.05 exceeds cap $0.01');
+    expect(result.error?.details).toEqual({
+      quoted: '$0.05',
+      quotedRaw: String(5n * 10n ** 16n),
+      cap: '$0.01',
+      capRaw: '10000',
+    });
+    expect(signed).toBe(0);
+    expect(result.authorization).toBeUndefined();
+    expect(wall.paid['/capped']).toBeUndefined();
+  });
+
+  it('pays an 18-decimal USDC quote within the cap, compared in USDC units', async () => {
+    signed = 0;
+    const result = await makeRequest(client, `${wall.url}/within`, { maxAmount: 50_000n });
+
+    expect(result.success).toBe(true);
+    expect(signed).toBe(1);
+    expect(wall.paid['/within']).toBe(1);
+  });
+
+  it('refuses a quote with no USD value', async () => {
+    const tok = paywall([{ amount: '300', asset: TEST_TOKEN }]);
+    try {
+      signed = 0;
+      const result = await makeRequest(client, `${tok.url}/tok`, { maxAmount: 10n ** 12n });
+
+      expect(result.error?.phase).toBe('price_exceeds_cap');
+      expect(result.error?.message).toContain('Price 3 TOK is not in USDC');
+      expect(result.error?.details).toMatchObject({ quoted: '3 TOK', quotedRaw: '300' });
+      expect(signed).toBe(0);
+      expect(tok.paid['/tok']).toBeUndefined();
+    } finally {
+      tok.stop();
+    }
+  });
+});
+
+describe('makeRequest dry run', () => {
+  let wall: Paywall;
+
+  beforeAll(() => {
+    wall = paywall([{ amount: String(5n * 10n ** 16n) }]);
+  });
+
+  afterAll(() => wall.stop());
+
+  it('signs without sending the payment or returning anything that could be submitted', async () => {
+    const result = await makeRequest(createClient(account), `${wall.url}/dry`, { dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.statusCode).toBe(402);
+    expect(wall.unpaid['/dry']).toBe(1);
+    expect(wall.paid['/dry']).toBeUndefined();
+
+    expect(result.dryRun).toMatchObject({
+      x402Version: 2,
+      scheme: 'exact',
+      network: 'eip155:31337',
+      headers: ['PAYMENT-SIGNATURE'],
+    });
+    expect(result.dryRun?.authorization).toMatchObject({ from: account.address, value: String(5n * 10n ** 16n) });
+    expect(result.settlement).toBeUndefined();
+    expect(result.authorization).toBeUndefined();
+
+    const returned = JSON.stringify(result);
+    expect(returned).not.toContain('signature"');
+    expect(returned).not.toContain('payload');
+    // A 65-byte EIP-712 signature
+    expect(returned).not.toMatch(/0x[0-9a-f]{130}/i);
+    expect(returned).not.toContain('transactionHash');
+  });
+});
+
+describe('makeRequest paid response cache', () => {
+  const OTHER_NETWORK = 'eip155:84532';
+  const BASE_SEPOLIA_USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+  let wall: Paywall;
+  const client = createClient(account);
+
+  /** Pay only on `network`, like execute_call's network option */
+  const only = (network: string) => ({
+    selection: { network },
+    rankRequirements: async (accepts: NormalizedRequirement[]) => accepts.filter((a) => a.network === network),
+  });
+
+  beforeAll(() => {
+    wall = paywall([
+      { amount: String(10n ** 16n) },
+      { amount: '10000', network: OTHER_NETWORK, asset: BASE_SEPOLIA_USDC },
+    ]);
+  });
+
+  afterAll(() => {
+    setSystemTime();
+    wall.stop();
+  });
+
+  it('serves an identical request from cache without paying again', async () => {
+    const first = await makeRequest(client, `${wall.url}/hit`, { cacheTtlSeconds: 60 });
+    const second = await makeRequest(client, `${wall.url}/hit`, { cacheTtlSeconds: 60 });
+
+    expect(first.cached).toBeUndefined();
+    expect(second.cached?.settlement?.transactionHash).toBe(first.settlement?.transactionHash);
+    expect(second.data).toEqual(first.data);
+    expect(wall.paid['/hit']).toBe(1);
+  });
+
+  it('pays again for a different request', async () => {
+    await makeRequest(client, `${wall.url}/miss`, { cacheTtlSeconds: 60, headers: { 'x-query': 'a' } });
+    const other = await makeRequest(client, `${wall.url}/miss`, { cacheTtlSeconds: 60, headers: { 'x-query': 'b' } });
+
+    expect(other.cached).toBeUndefined();
+    expect(wall.paid['/miss']).toBe(2);
+  });
+
+  it('pays again when asked for another network', async () => {
+    const test = await makeRequest(client, `${wall.url}/network`, { cacheTtlSeconds: 60, ...only(TEST_NETWORK) });
+    const other = await makeRequest(client, `${wall.url}/network`, { cacheTtlSeconds: 60, ...only(OTHER_NETWORK) });
+
+    expect(test.requirement?.network).toBe(TEST_NETWORK);
+    expect(other.cached).toBeUndefined();
+    expect(other.requirement?.network).toBe(OTHER_NETWORK);
+    expect(wall.paid['/network']).toBe(2);
+  });
+
+  it('pays again once the TTL has passed', async () => {
+    await makeRequest(client, `${wall.url}/expiry`, { cacheTtlSeconds: 60 });
+    setSystemTime(new Date(Date.now() + 61_000));
+    const later = await makeRequest(client, `${wall.url}/expiry`, { cacheTtlSeconds: 60 });
+    setSystemTime();
+
+    expect(later.cached).toBeUndefined();
+    expect(wall.paid['/expiry']).toBe(2);
+  });
+});
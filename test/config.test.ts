@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig, mergeConfig } from '../src/config';
+
+describe('mergeConfig', () => {
+  it('merges nested objects key by key', () => {
+    const merged = mergeConfig(
+      { budgets: { daily: '$5', weekly: '$20' }, verifySettlement: true },
+      { budgets: { daily: '$1' } }
+    );
+    expect(merged).toEqual({ budgets: { daily: '$1', weekly: '$20' }, verifySettlement: true });
+  });
+
+  it('replaces arrays and scalars', () => {
+    const merged = mergeConfig(
+      { policy: { allowedNetworks: ['base', 'solana'] }, defaultNetwork: 'base' },
+      { policy: { allowedNetworks: ['base-sepolia'] }, defaultNetwork: 'base-sepolia' }
+    );
+    expect(merged).toEqual({ policy: { allowedNetworks: ['base-sepolia'] }, defaultNetwork: 'base-sepolia' });
+  });
+
+  it('keeps rpc entries for other networks', () => {
+    const merged = mergeConfig(
+      { rpc: { base: 'https://base.example.com' } },
+      { rpc: { 'base-sepolia': 'http://127.0.0.1:8545' } }
+    );
+    expect(merged.rpc).toEqual({ base: 'https://base.example.com', 'base-sepolia': 'http://127.0.0.1:8545' });
+  });
+
+  it('does not modify its inputs', () => {
+    const base = { cache: { ttlSeconds: 60 } };
+    mergeConfig(base, { cache: { ttlSeconds: 0 } });
+    expect(base).toEqual({ cache: { ttlSeconds: 60 } });
+  });
+});
+
+describe('loadConfig', () => {
+  let dir: string;
+  let globalFile: string;
+  let projectFile: string;
+
+  const write = (file: string, config: unknown) => writeFileSync(file, JSON.stringify(config));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'x402-config-'));
+    globalFile = join(dir, 'config.json');
+    projectFile = join(dir, '.x402scan-mcp.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns defaults when no file exists', () => {
+    expect(loadConfig(globalFile, projectFile)).toEqual({ config: {}, sources: [], policies: [], ignored: [] });
+  });
+
+  it('merges plain settings from the project file over the global one', () => {
+    write(globalFile, { defaultNetwork: 'base', cache: { ttlSeconds: 60 }, debug: true });
+    write(projectFile, { defaultNetwork: 'base-sepolia', cache: { ttlSeconds: 0 } });
+
+    const loaded = loadConfig(globalFile, projectFile);
+    expect(loaded.config).toEqual({ defaultNetwork: 'base-sepolia', cache: { ttlSeconds: 0 }, debug: true });
+    expect(loaded.sources).toEqual([globalFile, projectFile]);
+  });
+
+  it('ignores global-only keys in the project file', () => {
+    write(globalFile, { rpc: { base: 'https://base.example.com' } });
+    write(projectFile, { dataDir: './wallets', rpc: { base: 'https://attacker.example.com' }, keystore: { encrypt: false } });
+
+    const loaded = loadConfig(globalFile, projectFile);
+    expect(loaded.config).toEqual({ rpc: { base: 'https://base.example.com' } });
+    expect(loaded.ignored).toEqual(['dataDir', 'keystore', 'rpc']);
+  });
+
+  it('lets the project file lower budgets and the approval threshold, not raise them', () => {
+    write(globalFile, { budgets: { daily: '$5', weekly: '$20' }, approval: { threshold: '$1' } });
+    write(projectFile, { budgets: { daily: '$50', weekly: '$10', monthly: '$30' }, approval: { threshold: '$100' } });
+
+    const { config } = loadConfig(globalFile, projectFile);
+    expect(config.budgets).toEqual({ daily: '$5', weekly: '$10', monthly: '$30' });
+    expect(config.approval).toEqual({ threshold: '$1' });
+  });
+
+  it('keeps the project policy alongside the global one instead of replacing it', () => {
+    write(globalFile, { policy: { allowedOrigins: ['api.example.com'] } });
+    write(projectFile, { policy: { allowedOrigins: ['*'] } });
+
+    const loaded = loadConfig(globalFile, projectFile);
+    expect(loaded.policies).toEqual([{ allowedOrigins: ['api.example.com'] }, { allowedOrigins: ['*'] }]);
+    expect(loaded.config.policy).toEqual({ allowedOrigins: ['api.example.com'] });
+  });
+
+  it('lets the project file turn settlement verification on but not off', () => {
+    write(globalFile, { verifySettlement: true });
+    write(projectFile, { verifySettlement: false });
+    expect(loadConfig(globalFile, projectFile).config.verifySettlement).toBe(true);
+
+    write(globalFile, {});
+    write(projectFile, { verifySettlement: true });
+    expect(loadConfig(globalFile, projectFile).config.verifySettlement).toBe(true);
+  });
+
+  it('reports the file and key of invalid settings', () => {
+    write(globalFile, { budgets: { daily: 'lots' } });
+    expect(() => loadConfig(globalFile)).toThrow(`Invalid config ${globalFile}: budgets.daily:`);
+
+    write(globalFile, { approval: { threshold: '5' } });
+    expect(() => loadConfig(globalFile)).toThrow('approval.threshold: Expected USD ("$5.00") or raw token units ("raw:5000000")');
+
+    write(globalFile, { unknownKey: true });
+    expect(() => loadConfig(globalFile)).toThrow('Unrecognized key');
+  });
+
+  it('reports unreadable JSON', () => {
+    writeFileSync(globalFile, '{ not json');
+    expect(() => loadConfig(globalFile)).toThrow(`Failed to read ${globalFile}`);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'bun:test';
+import { readFileSync, statSync } from 'fs';
+import { basename, dirname } from 'path';
+import type { StreamedBody } from '../src/streaming';
+import { downloadsDir, isTextual, mediaType, readErrorText, readResponseBody, saveDownload } from '../src/downloads';
+
+const URL = 'https://api.example.com/generate';
+
+describe('mediaType', () => {
+  it('drops parameters and lowercases', () => {
+    expect(mediaType('Text/HTML; charset=utf-8')).toBe('text/html');
+    expect(mediaType(null)).toBe('');
+  });
+});
+
+describe('isTextual', () => {
+  it('treats JSON, XML and text types as text', () => {
+    expect(isTextual('application/json')).toBe(true);
+    expect(isTextual('application/problem+json')).toBe(true);
+    expect(isTextual('application/rss+xml')).toBe(true);
+    expect(isTextual('text/csv')).toBe(true);
+  });
+
+  it('treats media and unknown application types as binary', () => {
+    expect(isTextual('image/png')).toBe(false);
+    expect(isTextual('image/svg+xml')).toBe(false);
+    expect(isTextual('audio/mpeg')).toBe(false);
+    expect(isTextual('application/pdf')).toBe(false);
+    expect(isTextual('application/octet-stream')).toBe(false);
+  });
+});
+
+describe('readResponseBody', () => {
+  it('parses JSON', async () => {
+    const response = new Response('{"ok":true}', { headers: { 'content-type': 'application/json' } });
+    expect(await readResponseBody(response, URL)).toEqual({ data: { ok: true } });
+  });
+
+  it('returns text as a string', async () => {
+    const response = new Response('hello', { headers: { 'content-type': 'text/plain' } });
+    expect(await readResponseBody(response, URL)).toEqual({ data: 'hello' });
+  });
+
+  it('marks a stream that broke off as incomplete', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"step":1}\n'));
+        controller.error(new Error('socket closed'));
+      },
+    });
+    const broken = await readResponseBody(new Response(body, { headers: { 'content-type': 'application/x-ndjson' } }), URL);
+    expect(broken.incomplete).toBe(true);
+
+    const whole = new Response('{"step":1}\n', { headers: { 'content-type': 'application/x-ndjson' } });
+    expect((await readResponseBody(whole, URL)).incomplete).toBeUndefined();
+  });
+
+  it('stops a stream at the size limit and marks it incomplete', async () => {
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode('data: "tick"\n\n'));
+      },
+    });
+    const response = new Response(endless, { headers: { 'content-type': 'text/event-stream' } });
+    const { data, incomplete } = await readResponseBody(response, URL, { maxBytes: 100 });
+    expect(incomplete).toBe(true);
+    const streamed = data as StreamedBody;
+    expect(streamed.chunks.length).toBeLessThan(10);
+    expect(streamed.error).toContain('larger than the 100 byte limit');
+  });
+
+  it('parses JSON served without a content type', async () => {
+    const response = new Response('[1,2]');
+    response.headers.delete('content-type');
+    expect(await readResponseBody(response, URL)).toEqual({ data: [1, 2] });
+  });
+});
+
+describe('saved downloads', () => {
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+  function binary(headers: Record<string, string> = {}): Response {
+    return new Response(png, { headers: { 'content-type': 'image/png', ...headers } });
+  }
+
+  it('saves binary bodies privately under the downloads directory', async () => {
+    const { data, file } = await readResponseBody(binary(), URL);
+    expect(data).toBeUndefined();
+    expect(file).toMatchObject({ size: 4, mimeType: 'image/png' });
+    expect(dirname(file!.path)).toBe(downloadsDir());
+    expect(file!.path.endsWith('.png')).toBe(true);
+    expect(new Uint8Array(readFileSync(file!.path))).toEqual(png);
+    expect(statSync(file!.path).mode & 0o777).toBe(0o600);
+  });
+
+  it('takes the extension from the URL when the type has none', async () => {
+    const file = await saveDownload(png, { url: 'https://x.io/a/report.xlsx?v=1', mimeType: 'application/vnd.ms-excel' });
+    expect(file.path.endsWith('.xlsx')).toBe(true);
+  });
+
+  it('keeps Content-Disposition names inside the downloads directory', async () => {
+    for (const header of [
+      'attachment; filename="../../etc/passwd"',
+      "attachment; filename*=UTF-8''..%2F..%2Fsecret.png",
+      'attachment; filename="C:\\temp\\evil name.png"',
+    ]) {
+      const { file } = await readResponseBody(binary({ 'content-disposition': header }), URL);
+      expect(dirname(file!.path)).toBe(downloadsDir());
+      expect(basename(file!.path)).toMatch(/-(passwd|secret\.png|evil_name\.png)$/);
+    }
+  });
+
+  it('ignores names that reduce to nothing', async () => {
+    const { file } = await readResponseBody(binary({ 'content-disposition': 'attachment; filename=".."' }), URL);
+    expect(file!.path.endsWith('.png')).toBe(true);
+    expect(basename(file!.path)).not.toContain('..');
+  });
+
+  it('shortens overlong names, keeping the extension', async () => {
+    const header = `attachment; filename="${'a'.repeat(300)}.png"`;
+    const { file } = await readResponseBody(binary({ 'content-disposition': header }), URL);
+    const name = basename(file!.path);
+    expect(name.endsWith(`${'a'.repeat(96)}.png`)).toBe(true);
+    expect(name.length).toBeLessThan(150);
+  });
+
+  it('refuses bodies over the size limit', async () => {
+    await expect(readResponseBody(binary(), URL, { maxBytes: 3 })).rejects.toThrow('larger than the 3 byte limit');
+    const declared = binary({ 'content-length': '999999999999' });
+    await expect(readResponseBody(declared, URL)).rejects.toThrow('byte limit');
+  });
+});
+
+describe('readErrorText', () => {
+  it('returns the whole body under the limit', async () => {
+    expect(await readErrorText(new Response('Not found'))).toBe('Not found');
+  });
+
+  it('cuts off bodies over the limit', async () => {
+    expect(await readErrorText(new Response('x'.repeat(1000)), 10)).toBe('xxxxxxxxxx... (cut off at 10 bytes)');
+  });
+});
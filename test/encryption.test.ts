@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'bun:test';
+import { encryptSecret, decryptSecret } from '../src/encryption';
+
+// Low cost keeps the tests fast; production uses DEFAULT_SCRYPT_PARAMS
+const FAST = { n: 1024, r: 8, p: 1, dklen: 32 };
+const KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+describe('encryptSecret / decryptSecret', () => {
+  it('round-trips a secret', async () => {
+    const encrypted = await encryptSecret(KEY, 'correct horse', FAST);
+    expect(await decryptSecret(encrypted, 'correct horse')).toBe(KEY);
+  });
+
+  it('does not store the secret in plaintext', async () => {
+    const encrypted = await encryptSecret(KEY, 'correct horse', FAST);
+    expect(JSON.stringify(encrypted)).not.toContain(KEY.slice(2));
+    expect(encrypted.kdf).toBe('scrypt');
+    expect(encrypted.cipher).toBe('aes-256-gcm');
+  });
+
+  it('uses a fresh salt and IV each time', async () => {
+    const a = await encryptSecret(KEY, 'pw', FAST);
+    const b = await encryptSecret(KEY, 'pw', FAST);
+    expect(a.kdfparams.salt).not.toBe(b.kdfparams.salt);
+    expect(a.iv).not.toBe(b.iv);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    const encrypted = await encryptSecret(KEY, 'right', FAST);
+    await expect(decryptSecret(encrypted, 'wrong')).rejects.toThrow('wrong passphrase');
+  });
+
+  it('rejects tampered ciphertext', async () => {
+    const encrypted = await encryptSecret(KEY, 'pw', FAST);
+    const flipped = (parseInt(encrypted.ciphertext[0], 16) ^ 1).toString(16);
+    await expect(
+      decryptSecret({ ...encrypted, ciphertext: flipped + encrypted.ciphertext.slice(1) }, 'pw')
+    ).rejects.toThrow('corrupted');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Config written by setup.ts: a local chain whose USDC has 18 decimals and a
+ * 2-decimal token, so amounts are tested with decimals other than USDC's usual 6.
+ * paywall() serves x402 payments on that chain.
+ */
+
+export const TEST_NETWORK = 'eip155:31337';
+export const TEST_RPC_ENV = 'X402_RPC_EIP155_31337';
+/** USDC with 18 decimals */
+export const TEST_USDC = '0x00000000000000000000000000000000000000a1';
+/** "TOK", 2 decimals */
+export const TEST_TOKEN = '0x00000000000000000000000000000000000000a2';
+
+/** Where paywall() asks to be paid */
+export const PAY_TO = '0x00000000000000000000000000000000000000b1';
+
+export const TEST_CONFIG = {
+  networks: {
+    [TEST_NETWORK]: { name: 'Test Chain', v1Name: 'test-chain', rpcUrls: ['http://127.0.0.1:1'], testnet: true },
+  },
+  tokens: [
+    { network: TEST_NETWORK, address: TEST_USDC, symbol: 'USDC', decimals: 18, name: 'USD Coin', version: '2' },
+    { network: TEST_NETWORK, address: TEST_TOKEN, symbol: 'TOK', decimals: 2, name: 'Test Token', version: '1' },
+  ],
+};
+
+export interface Quote {
+  /** Raw units of the asset */
+  amount: string;
+  network?: string;
+  asset?: string;
+}
+
+export interface Paywall {
+  url: string;
+  /** Requests that carried a payment, by path */
+  paid: Record<string, number>;
+  /** Requests without one, by path */
+  unpaid: Record<string, number>;
+  stop: () => void;
+}
+
+/**
+ * Local x402 v2 endpoint: every path answers 402 with `quotes` (on TEST_NETWORK in its USDC
+ * by default) until the request carries a payment, then 200 with a settlement header
+ */
+export function paywall(quotes: Quote[]): Paywall {
+  const paid: Record<string, number> = {};
+  const unpaid: Record<string, number> = {};
+  const server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const path = new URL(req.url).pathname;
+      if (!req.headers.get('payment-signature')) {
+        unpaid[path] = (unpaid[path] ?? 0) + 1;
+        const accepts = quotes.map(({ amount, network = TEST_NETWORK, asset = TEST_USDC }) => ({
+          scheme: 'exact',
+          network,
+          amount,
+          asset,
+          payTo: PAY_TO,
+          maxTimeoutSeconds: 60,
+        }));
+        const resource = { url: req.url, description: 'Test resource', mimeType: 'application/json' };
+        const required = { x402Version: 2, resource, accepts };
+        return new Response('{}', { status: 402, headers: { 'payment-required': btoa(JSON.stringify(required)) } });
+      }
+      paid[path] = (paid[path] ?? 0) + 1;
+      const settlement = { success: true, transaction: `0x${'ab'.repeat(32)}`, network: TEST_NETWORK, payer: PAY_TO };
+      return Response.json(
+        { path, paid: paid[path] },
+        { headers: { 'payment-response': btoa(JSON.stringify(settlement)) } }
+      );
+    },
+  });
+  return { url: `http://localhost:${server.port}`, paid, unpaid, stop: () => server.stop(true) };
+}
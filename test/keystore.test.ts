@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  createWallet,
+  exportWallet,
+  getActiveWalletName,
+  getClientIdentifierHeaders,
+  getWallet,
+  importWallet,
+  listWallets,
+  previewExport,
+  setActiveWallet,
+  walletExists,
+} from '../src/keystore';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+describe('wallet profiles', () => {
+  it('sends identifier headers without creating the default wallet', async () => {
+    expect(await walletExists()).toBe(false);
+    expect(await getClientIdentifierHeaders()).toEqual({ Referer: expect.stringMatching(/^x402scan-mcp\//) });
+    expect(await walletExists()).toBe(false);
+    expect(await getClientIdentifierHeaders('0xabc')).toMatchObject({ 'X-Wallet-Address': '0xabc' });
+  });
+
+  it('validates wallet names', async () => {
+    for (const name of ['', 'Research', '-prod', 'a b', '../default', 'x'.repeat(33), 'env']) {
+      await expect(createWallet(name)).rejects.toThrow('Invalid wallet name');
+    }
+    await expect(getWallet('no-such-wallet')).rejects.toThrow('Wallet "no-such-wallet" not found');
+  });
+
+  it('creates, lists and switches named wallets', async () => {
+    const research = await createWallet('research');
+    const prod = await createWallet('prod_2');
+    await expect(createWallet('research')).rejects.toThrow('Wallet "research" already exists');
+
+    const listed = await listWallets();
+    expect(listed.find((w) => w.name === 'research')).toMatchObject({ address: research.address, active: false });
+    expect(listed.find((w) => w.name === 'prod_2')).toMatchObject({ address: prod.address, type: 'mnemonic' });
+
+    await setActiveWallet('prod_2');
+    expect(await getActiveWalletName()).toBe('prod_2');
+    expect((await getWallet()).address).toBe(prod.address);
+    expect((await listWallets()).filter((w) => w.active).map((w) => w.name)).toEqual(['prod_2']);
+    expect(await getClientIdentifierHeaders()).toMatchObject({ 'X-Client-ID': prod.address });
+
+    await expect(setActiveWallet('missing')).rejects.toThrow('not found');
+    expect(await getActiveWalletName()).toBe('prod_2');
+  });
+});
+
+describe('previewExport', () => {
+  it('lists the wallets that share the mnemonic without decrypting', async () => {
+    await importWallet('export-a', { mnemonic: MNEMONIC });
+    await createWallet('export-b', { from: 'export-a' });
+    await importWallet('export-key', { privateKey: `0x${'11'.repeat(32)}` });
+
+    expect(await previewExport('export-a')).toMatchObject({ type: 'mnemonic', sharedWith: ['export-b'] });
+    expect(await previewExport('export-b')).toMatchObject({ sharedWith: ['export-a'] });
+    expect(await previewExport('export-key')).toMatchObject({ type: 'privateKey', sharedWith: [] });
+  });
+
+  it('refuses the env wallet and unknown wallets like exportWallet', async () => {
+    await expect(previewExport('env')).rejects.toThrow('X402_PRIVATE_KEY');
+    await expect(previewExport('missing')).rejects.toThrow('Wallet "missing" not found');
+    await expect(exportWallet('missing')).rejects.toThrow('Wallet "missing" not found');
+  });
+
+  it('exports the shared mnemonic with each derived wallet', async () => {
+    const backup = await exportWallet('export-b');
+    expect(backup.mnemonic).toBe(MNEMONIC);
+    expect(backup.derivationPath).toBe("m/44'/60'/0'/0/1");
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  sumSpentSince,
+  filterLedger,
+  summarizeLedger,
+  ledgerToCsv,
+  type LedgerEntry,
+} from '../src/ledger';
+
+const NOW = new Date('2025-06-15T12:00:00.000Z');
+
+function entry(overrides: Partial<LedgerEntry> & { hoursAgo?: number } = {}): LedgerEntry {
+  const { hoursAgo = 1, ...rest } = overrides;
+  return {
+    timestamp: new Date(NOW.getTime() - hoursAgo * 60 * 60 * 1000).toISOString(),
+    url: 'https://api.example.com/data',
+    method: 'GET',
+    amount: '1000000',
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    network: 'eip155:8453',
+    payTo: '0x1234567890123456789012345678901234567890',
+    payer: '0x0000000000000000000000000000000000000001',
+    transactionHash: '0xabc',
+    status: 'settled',
+    ...rest,
+  };
+}
+
+const OPTIMISM_USDC = '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85';
+
+describe('sumSpentSince', () => {
+  it('sums entries at or after the cutoff', () => {
+    const entries = [entry({ hoursAgo: 1 }), entry({ amount: '2000000', hoursAgo: 30 })];
+    expect(sumSpentSince(entries, new Date(NOW.getTime() - 24 * 60 * 60 * 1000))).toBe(1_000_000n);
+    expect(sumSpentSince(entries, new Date(0))).toBe(3_000_000n);
+  });
+
+  it('returns zero for empty ledger', () => {
+    expect(sumSpentSince([], new Date(0))).toBe(0n);
+  });
+
+  it('only sums USDC', () => {
+    const entries = [entry(), entry({ amount: '5000000000000000000', asset: '0xweth' })];
+    expect(sumSpentSince(entries, new Date(0))).toBe(1_000_000n);
+  });
+});
+
+describe('filterLedger', () => {
+  const entries = [
+    entry({ hoursAgo: 1 }),
+    entry({ hoursAgo: 48, url: 'https://other.io/search', network: 'base' }),
+    entry({ hoursAgo: 72, network: 'eip155:42161', status: 'unconfirmed', transactionHash: undefined }),
+  ];
+
+  it('filters by date range', () => {
+    const from = new Date(NOW.getTime() - 50 * 60 * 60 * 1000);
+    expect(filterLedger(entries, { from })).toHaveLength(2);
+    expect(filterLedger(entries, { to: from })).toHaveLength(1);
+  });
+
+  it('filters by origin or hostname', () => {
+    expect(filterLedger(entries, { origin: 'https://other.io' })).toHaveLength(1);
+    expect(filterLedger(entries, { origin: 'api.example.com' })).toHaveLength(2);
+  });
+
+  it('normalizes network identifiers', () => {
+    expect(filterLedger(entries, { network: 'base' })).toHaveLength(2);
+    expect(filterLedger(entries, { network: 'eip155:42161' })).toHaveLength(1);
+  });
+
+  it('filters by status', () => {
+    expect(filterLedger(entries, { status: 'unconfirmed' })).toHaveLength(1);
+  });
+});
+
+describe('summarizeLedger', () => {
+  it('totals per origin and network', () => {
+    const summary = summarizeLedger([
+      entry(),
+      entry({ amount: '500000', network: 'base' }),
+      entry({ url: 'https://other.io/x', network: 'eip155:10', asset: OPTIMISM_USDC }),
+    ]);
+
+    expect(summary.count).toBe(3);
+    expect(summary.total).toBe(2_500_000n);
+    expect(summary.byOrigin['https://api.example.com']).toEqual({ count: 2, total: 1_500_000n, otherAssets: {} });
+    expect(summary.byNetwork['eip155:8453']).toEqual({ count: 2, total: 1_500_000n, otherAssets: {} });
+    expect(summary.byNetwork['eip155:10']).toEqual({ count: 1, total: 1_000_000n, otherAssets: {} });
+  });
+
+  it('totals other assets separately instead of adding their raw units to the USD total', () => {
+    const summary = summarizeLedger([
+      entry(),
+      entry({ amount: '5000000000000000000', asset: '0xWeth' }),
+      entry({ amount: '1', asset: '0xweth', network: 'base' }),
+    ]);
+    expect(summary.count).toBe(3);
+    expect(summary.total).toBe(1_000_000n);
+    expect(summary.otherAssets).toEqual({
+      'eip155:8453/0xweth': { network: 'eip155:8453', asset: '0xWeth', count: 2, total: 5_000_000_000_000_000_001n },
+    });
+    expect(summary.byNetwork['eip155:8453'].otherAssets['eip155:8453/0xweth'].count).toBe(2);
+  });
+});
+
+describe('ledgerToCsv', () => {
+  it('writes a header and one row per entry', () => {
+    const lines = ledgerToCsv([entry()]).split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toStartWith('timestamp,origin,url');
+    expect(lines[1]).toContain('$1.00,1000000');
+  });
+
+  it('quotes fields containing commas', () => {
+    const csv = ledgerToCsv([entry({ url: 'https://api.example.com/q?a=1,2' })]);
+    expect(csv).toContain('"https://api.example.com/q?a=1,2"');
+  });
+});
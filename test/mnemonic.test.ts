@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'bun:test';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  derivationPath,
+  deriveEd25519Seed,
+  derivePrivateKey,
+  generateMnemonic,
+  mnemonicFingerprint,
+  normalizeMnemonic,
+  pathIndex,
+  solanaDerivationPath,
+  validateMnemonic,
+} from '../src/mnemonic';
+
+// Well-known development mnemonic (Hardhat/Anvil default accounts)
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+describe('derivationPath / pathIndex', () => {
+  it('builds BIP-44 Ethereum paths', () => {
+    expect(derivationPath(0)).toBe("m/44'/60'/0'/0/0");
+    expect(derivationPath(7)).toBe("m/44'/60'/0'/0/7");
+  });
+
+  it('builds Solana paths with every level hardened', () => {
+    expect(solanaDerivationPath(2)).toBe("m/44'/501'/2'/0'");
+  });
+
+  it('reads the index back', () => {
+    expect(pathIndex("m/44'/60'/0'/0/3")).toBe(3);
+    expect(pathIndex("m/44'/501'/0'/0'")).toBeUndefined();
+  });
+});
+
+describe('derivePrivateKey', () => {
+  it('matches known accounts', () => {
+    const key0 = derivePrivateKey(MNEMONIC, derivationPath(0));
+    expect(key0).toBe('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+    expect(privateKeyToAccount(derivePrivateKey(MNEMONIC, derivationPath(1))).address).toBe(
+      '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+    );
+  });
+
+  it('ignores case and extra whitespace', () => {
+    expect(derivePrivateKey(`  ${MNEMONIC.toUpperCase().replace(/ /g, '  ')} `, derivationPath(0))).toBe(
+      derivePrivateKey(MNEMONIC, derivationPath(0))
+    );
+  });
+});
+
+describe('validateMnemonic', () => {
+  it('accepts valid phrases', () => {
+    expect(validateMnemonic(MNEMONIC).valid).toBe(true);
+    expect(validateMnemonic(generateMnemonic()).valid).toBe(true);
+  });
+
+  it('rejects a bad checksum', () => {
+    const result = validateMnemonic('test test test test test test test test test test test test');
+    expect(result.valid).toBe(false);
+  });
+
+  it('rejects unknown words and wrong lengths', () => {
+    expect(validateMnemonic('test test test test test test test test test test test junkk').valid).toBe(false);
+    expect(validateMnemonic('test test test').valid).toBe(false);
+  });
+});
+
+describe('mnemonicFingerprint', () => {
+  it('is stable per mnemonic and differs between mnemonics', () => {
+    expect(mnemonicFingerprint(MNEMONIC)).toBe(mnemonicFingerprint(normalizeMnemonic(MNEMONIC)));
+    expect(mnemonicFingerprint(MNEMONIC)).toMatch(/^[0-9a-f]{8}$/);
+    expect(mnemonicFingerprint(generateMnemonic())).not.toBe(mnemonicFingerprint(MNEMONIC));
+  });
+});
+
+describe('deriveEd25519Seed', () => {
+  // SLIP-0010 test vector 1 for ed25519
+  const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+  it('matches the SLIP-0010 test vectors', () => {
+    expect(Buffer.from(deriveEd25519Seed(seed, 'm')).toString('hex')).toBe(
+      '2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7'
+    );
+    expect(Buffer.from(deriveEd25519Seed(seed, "m/0'")).toString('hex')).toBe(
+      '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3'
+    );
+    expect(Buffer.from(deriveEd25519Seed(seed, "m/0'/1'/2'/2'/1000000000'")).toString('hex')).toBe(
+      '8f94d394a8e8fd6b1bc2f3f49f5c47e385281d5c17e65324b0f62483e37e8793'
+    );
+  });
+
+  it('rejects non-hardened levels', () => {
+    expect(() => deriveEd25519Seed(seed, 'm/0')).toThrow('hardened');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  amountFields,
+  formatMoney,
+  formatUSDC,
+  money,
+  parseAmountLimit,
+  parseDecimal,
+  parseUSDC,
+  RAW_UNITS,
+  toDecimal,
+  toUsdcUnits,
+} from '../src/money';
+
+describe('toDecimal', () => {
+  it('renders exact decimals without trailing zeros', () => {
+    expect(toDecimal(1_500_000n, 6)).toBe('1.5');
+    expect(toDecimal(1_000n, 6)).toBe('0.001');
+    expect(toDecimal(12_000_000n, 6)).toBe('12');
+    expect(toDecimal(0n, 6)).toBe('0');
+  });
+
+  it('keeps precision beyond Number', () => {
+    expect(toDecimal(123_456_789_012_345_678_901n, 18)).toBe('123.456789012345678901');
+  });
+
+  it('handles zero decimals and negatives', () => {
+    expect(toDecimal(42n, 0)).toBe('42');
+    expect(toDecimal(-1_500_000n, 6)).toBe('-1.5');
+  });
+});
+
+describe('formatUSDC', () => {
+  it('formats whole dollars', () => {
+    expect(formatUSDC(1_000_000n)).toBe('$1.00');
+    expect(formatUSDC(10_000_000n)).toBe('$10.00');
+    expect(formatUSDC(100_000_000n)).toBe('$100.00');
+  });
+
+  it('formats cents', () => {
+    expect(formatUSDC(1_500_000n)).toBe('$1.50');
+    expect(formatUSDC(1_990_000n)).toBe('$1.99');
+    expect(formatUSDC(10_000n)).toBe('$0.01');
+  });
+
+  it('formats zero', () => {
+    expect(formatUSDC(0n)).toBe('$0.00');
+  });
+
+  it('formats small amounts exactly', () => {
+    expect(formatUSDC(100n)).toBe('$0.0001');
+    expect(formatUSDC(1_000n)).toBe('$0.001');
+    expect(formatUSDC(5_000n)).toBe('$0.005');
+    expect(formatUSDC(1n)).toBe('$0.000001');
+  });
+});
+
+describe('formatMoney', () => {
+  it('keeps the USD form for USDC', () => {
+    expect(formatMoney(money(1_500_000n))).toBe('$1.50');
+  });
+
+  it('uses the asset decimals and symbol otherwise', () => {
+    expect(formatMoney(money(1_230_000n, { decimals: 6, symbol: 'EURC' }))).toBe('1.23 EURC');
+    expect(formatMoney(money(10n ** 18n, { decimals: 18, symbol: 'DAI' }))).toBe('1 DAI');
+    expect(formatMoney(money('1', { decimals: 18, symbol: 'DAI' }))).toBe('0.000000000000000001 DAI');
+  });
+});
+
+describe('amountFields', () => {
+  it('returns the human and raw form under sibling keys', () => {
+    expect(amountFields('price', money(1_000n))).toEqual({ price: '$0.001', priceRaw: '1000' });
+  });
+});
+
+describe('parseDecimal', () => {
+  it('parses exactly', () => {
+    expect(parseDecimal('1.5', 6)).toBe(1_500_000n);
+    expect(parseDecimal('.001', 6)).toBe(1_000n);
+    expect(parseDecimal('3', 0)).toBe(3n);
+    expect(parseDecimal('0.000000000000000001', 18)).toBe(1n);
+  });
+
+  it('rejects more decimal places than the asset has', () => {
+    expect(() => parseDecimal('0.0000001', 6)).toThrow('more than 6 decimal places');
+  });
+
+  it('rejects invalid input', () => {
+    expect(() => parseDecimal('', 6)).toThrow('Invalid amount');
+    expect(() => parseDecimal('.', 6)).toThrow('Invalid amount');
+    expect(() => parseDecimal('1e3', 6)).toThrow('Invalid amount');
+  });
+});
+
+describe('parseUSDC', () => {
+  it('parses dollar string', () => {
+    expect(parseUSDC('$1.00')).toBe(1_000_000n);
+    expect(parseUSDC('$10.50')).toBe(10_500_000n);
+  });
+
+  it('parses without dollar sign', () => {
+    expect(parseUSDC('1.00')).toBe(1_000_000n);
+    expect(parseUSDC('0.01')).toBe(10_000n);
+  });
+
+  it('handles whitespace', () => {
+    expect(parseUSDC(' $5.00 ')).toBe(5_000_000n);
+  });
+
+  it('does not lose precision on sub-cent prices', () => {
+    expect(parseUSDC('0.000001')).toBe(1n);
+    expect(parseUSDC('0.29')).toBe(290_000n);
+  });
+});
+
+describe('parseAmountLimit', () => {
+  it('parses USD strings', () => {
+    expect(parseAmountLimit('$0.05')).toBe(50_000n);
+    expect(parseAmountLimit('0.05')).toBe(50_000n);
+    expect(parseAmountLimit('$2')).toBe(2_000_000n);
+  });
+
+  it('parses raw: integers as raw units', () => {
+    expect(parseAmountLimit('raw:50000')).toBe(50_000n);
+    expect(parseAmountLimit(' RAW: 1 ')).toBe(1n);
+  });
+
+  it('refuses bare integers, which could be USD or raw units', () => {
+    expect(() => parseAmountLimit('5')).toThrow('Ambiguous amount: "5". Use USD ("$5") or raw units ("raw:5")');
+    expect(() => parseAmountLimit('50000')).toThrow('Ambiguous amount');
+    expect(parseAmountLimit('5.')).toBe(5_000_000n);
+  });
+
+  it('rejects invalid input', () => {
+    expect(() => parseAmountLimit('abc')).toThrow('Invalid amount');
+    expect(() => parseAmountLimit('-1')).toThrow('Invalid amount');
+    expect(() => parseAmountLimit('')).toThrow('Invalid amount');
+    expect(() => parseAmountLimit('raw:0.5')).toThrow('Invalid amount');
+  });
+});
+
+describe('toUsdcUnits', () => {
+  it('keeps 6-decimal USDC as is', () => {
+    expect(toUsdcUnits(money(1_500_000n))).toBe(1_500_000n);
+  });
+
+  it('rescales USDC with other decimals, rounding up', () => {
+    expect(toUsdcUnits(money(1_500_000_000_000_000_000n, { decimals: 18, symbol: 'USDC' }))).toBe(1_500_000n);
+    expect(toUsdcUnits(money(1n, { decimals: 18, symbol: 'USDC' }))).toBe(1n);
+    expect(toUsdcUnits(money(15n, { decimals: 1, symbol: 'usdc' }))).toBe(1_500_000n);
+  });
+
+  it('has no USD value for other assets', () => {
+    expect(toUsdcUnits(money(1_000_000n, { decimals: 6, symbol: 'EURC' }))).toBeUndefined();
+    expect(toUsdcUnits(money(1_000_000n, RAW_UNITS))).toBeUndefined();
+  });
+});
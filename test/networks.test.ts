@@ -4,11 +4,21 @@ import {
   getChainConfig,
   getChainId,
   getChainName,
+  getExplorerLink,
+  getToken,
+  getTokens,
   getUSDCAddress,
+  isSolanaNetwork,
+  isSupportedNetwork,
   isTestnet,
+  listNetworks,
   DEFAULT_NETWORK,
+  buildRegistry,
 } from '../src/networks';
 
+const SOLANA_MAINNET = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+const SOLANA_DEVNET = 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1';
+
 describe('toCaip2', () => {
   it('returns CAIP-2 format unchanged', () => {
     expect(toCaip2('eip155:8453')).toBe('eip155:8453');
@@ -111,8 +121,119 @@ describe('isTestnet', () => {
   });
 });
 
+describe('Solana networks', () => {
+  it('maps v1 names to CAIP-2', () => {
+    expect(toCaip2('solana')).toBe(SOLANA_MAINNET);
+    expect(toCaip2('solana-devnet')).toBe(SOLANA_DEVNET);
+    expect(toCaip2(SOLANA_MAINNET)).toBe(SOLANA_MAINNET);
+  });
+
+  it('is supported but has no EVM chain config', () => {
+    expect(isSupportedNetwork('solana')).toBe(true);
+    expect(isSolanaNetwork(SOLANA_DEVNET)).toBe(true);
+    expect(getChainConfig('solana')).toBeUndefined();
+    expect(isSolanaNetwork('base')).toBe(false);
+  });
+
+  it('returns USDC mints and names', () => {
+    expect(getUSDCAddress('solana')).toBe('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+    expect(getUSDCAddress('solana-devnet')).toBe('4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU');
+    expect(getChainName(SOLANA_MAINNET)).toBe('Solana');
+    expect(isTestnet('solana-devnet')).toBe(true);
+    expect(isTestnet('solana')).toBe(false);
+  });
+
+  it('builds explorer links with the devnet cluster', () => {
+    expect(getExplorerLink('solana', 'tx', 'abc')).toBe('https://explorer.solana.com/tx/abc');
+    expect(getExplorerLink('solana-devnet', 'address', 'abc')).toBe(
+      'https://explorer.solana.com/address/abc?cluster=devnet'
+    );
+    expect(getExplorerLink('base', 'tx', '0x1')).toBe('https://basescan.org/tx/0x1');
+  });
+});
+
 describe('DEFAULT_NETWORK', () => {
   it('is Base mainnet', () => {
     expect(DEFAULT_NETWORK).toBe('eip155:8453');
   });
 });
+
+describe('token registry', () => {
+  it('has USDC with its EIP-712 domain on every built-in EVM chain', () => {
+    expect(getToken('base', '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913')).toMatchObject({
+      network: 'eip155:8453',
+      symbol: 'USDC',
+      decimals: 6,
+      eip712: { name: 'USD Coin', version: '2' },
+    });
+    expect(getToken('base-sepolia', 'usdc')?.eip712).toEqual({ name: 'USDC', version: '2' });
+  });
+
+  it('has Solana USDC without an EIP-712 domain', () => {
+    const [usdc] = getTokens('solana');
+    expect(usdc.address).toBe(getUSDCAddress('solana')!);
+    expect(usdc.eip712).toBeUndefined();
+  });
+
+  it('matches addresses case-insensitively and misses unknown assets', () => {
+    expect(getToken('eip155:8453', '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913')?.symbol).toBe('USDC');
+    expect(getToken('eip155:8453', '0x0000000000000000000000000000000000000001')).toBeUndefined();
+  });
+
+  it('lists every network once', () => {
+    const networks = listNetworks();
+    expect(networks).toContain('eip155:8453');
+    expect(networks).toContain(SOLANA_DEVNET);
+    expect(new Set(networks).size).toBe(networks.length);
+  });
+});
+
+describe('buildRegistry', () => {
+  const avalanche = { name: 'Avalanche', v1Name: 'avalanche', rpcUrls: ['https://api.avax.network/ext/bc/C/rpc'] };
+  const avalancheUsdc = {
+    network: 'avalanche',
+    address: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+    symbol: 'USDC',
+    decimals: 6,
+    name: 'USD Coin',
+    version: '2',
+  };
+
+  it('adds config networks and their tokens, resolving v1 names', () => {
+    const registry = buildRegistry({ networks: { 'eip155:43114': avalanche }, tokens: [avalancheUsdc] });
+    expect(registry.v1ToCaip2.avalanche).toBe('eip155:43114');
+    expect(registry.chains['eip155:43114'].usdcAddress).toBe(avalancheUsdc.address as `0x${string}`);
+    expect(registry.chains['eip155:43114'].chain.id).toBe(43114);
+    expect(registry.tokens.find((t) => t.network === 'eip155:43114')).toMatchObject({
+      symbol: 'USDC',
+      eip712: { name: 'USD Coin', version: '2' },
+    });
+  });
+
+  it('refuses a v1Name that is already used', () => {
+    expect(() => buildRegistry({ networks: { 'eip155:43114': { ...avalanche, v1Name: 'base' } } })).toThrow(
+      'v1Name "base" is already used'
+    );
+    expect(() =>
+      buildRegistry({ networks: { 'eip155:43114': avalanche, 'eip155:43113': { ...avalanche, name: 'Fuji' } } })
+    ).toThrow('v1Name "avalanche" is already used');
+  });
+
+  it('refuses redefining a built-in network', () => {
+    expect(() => buildRegistry({ networks: { 'eip155:8453': avalanche } })).toThrow('already built in');
+  });
+
+  it('refuses tokens on unknown networks', () => {
+    expect(() => buildRegistry({ tokens: [avalancheUsdc] })).toThrow('unknown EVM network "avalanche"');
+    expect(() => buildRegistry({ tokens: [{ ...avalancheUsdc, network: 'eip155:999' }] })).toThrow(
+      'unknown EVM network "eip155:999"'
+    );
+  });
+
+  it('lets a config token replace built-in USDC at the same address', () => {
+    const override = { ...avalancheUsdc, network: 'base', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', name: 'USDC' };
+    const baseTokens = buildRegistry({ tokens: [override] }).tokens.filter((t) => t.network === 'eip155:8453');
+    expect(baseTokens).toHaveLength(1);
+    expect(baseTokens[0].eip712).toEqual({ name: 'USDC', version: '2' });
+  });
+});
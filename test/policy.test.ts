@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'bun:test';
+import { globMatch, matchesOriginPattern, evaluatePolicy, policyFailures } from '../src/policy';
+
+describe('globMatch', () => {
+  it('matches literal values case-insensitively', () => {
+    expect(globMatch('api.example.com', 'API.example.com')).toBe(true);
+    expect(globMatch('api.example.com', 'api.example.org')).toBe(false);
+  });
+
+  it('treats * as a wildcard', () => {
+    expect(globMatch('*.example.com', 'api.example.com')).toBe(true);
+    expect(globMatch('*.example.com', 'a.b.example.com')).toBe(true);
+    expect(globMatch('*.example.com', 'example.com')).toBe(false);
+    expect(globMatch('eip155:*', 'eip155:8453')).toBe(true);
+  });
+
+  it('escapes regex characters', () => {
+    expect(globMatch('api.example.com', 'apixexample.com')).toBe(false);
+  });
+});
+
+describe('matchesOriginPattern', () => {
+  it('matches hostnames for bare patterns', () => {
+    expect(matchesOriginPattern('*.enrichx402.com', 'https://api.enrichx402.com/search?q=1')).toBe(true);
+    expect(matchesOriginPattern('stablestudio.io', 'http://stablestudio.io:8080/x')).toBe(true);
+  });
+
+  it('matches full origins for patterns with a scheme', () => {
+    expect(matchesOriginPattern('https://api.example.com', 'https://api.example.com/data')).toBe(true);
+    expect(matchesOriginPattern('https://api.example.com', 'http://api.example.com/data')).toBe(false);
+  });
+
+  it('rejects invalid URLs', () => {
+    expect(matchesOriginPattern('*', 'not a url')).toBe(false);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  const policy = {
+    allowedOrigins: ['*.example.com'],
+    blockedOrigins: ['evil.example.com'],
+    allowedPayTo: ['0xAbC0000000000000000000000000000000000001'],
+    allowedNetworks: ['base'],
+    allowedAssets: ['0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'],
+  };
+
+  it('returns no checks without a policy', () => {
+    expect(evaluatePolicy({ url: 'https://anything.io' }, undefined)).toEqual([]);
+  });
+
+  it('passes a compliant payment', () => {
+    const checks = evaluatePolicy(
+      {
+        url: 'https://api.example.com/data',
+        network: 'eip155:8453',
+        payTo: '0xabc0000000000000000000000000000000000001',
+        asset: '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913',
+      },
+      policy
+    );
+    expect(checks.map((c) => c.rule)).toEqual([
+      'blockedOrigins',
+      'allowedOrigins',
+      'allowedPayTo',
+      'allowedNetworks',
+      'allowedAssets',
+    ]);
+    expect(policyFailures(checks)).toEqual([]);
+  });
+
+  it('blocks denylisted origins even when allowlisted', () => {
+    const failures = policyFailures(evaluatePolicy({ url: 'https://evil.example.com/pay' }, policy));
+    expect(failures.map((c) => c.rule)).toEqual(['blockedOrigins']);
+  });
+
+  it('fails origins outside the allowlist', () => {
+    const failures = policyFailures(evaluatePolicy({ url: 'https://attacker.io/pay' }, policy));
+    expect(failures.map((c) => c.rule)).toEqual(['allowedOrigins']);
+  });
+
+  it('fails disallowed payTo, network and asset', () => {
+    const failures = policyFailures(
+      evaluatePolicy({ network: 'polygon', payTo: '0xdead', asset: '0xbeef' }, policy)
+    );
+    expect(failures.map((c) => c.rule)).toEqual(['allowedPayTo', 'allowedNetworks', 'allowedAssets']);
+  });
+
+  it('requires every policy to pass when given several', () => {
+    const project = { allowedOrigins: ['api.example.com'] };
+    const wide = { allowedOrigins: ['*'] };
+    expect(policyFailures(evaluatePolicy({ url: 'https://api.example.com/x' }, [policy, project]))).toEqual([]);
+    expect(policyFailures(evaluatePolicy({ url: 'https://evil.example.com/x' }, [policy, wide])).map((c) => c.rule)).toEqual([
+      'blockedOrigins',
+    ]);
+    expect(policyFailures(evaluatePolicy({ url: 'https://other.example.com/x' }, [policy, project])).map((c) => c.rule)).toEqual([
+      'allowedOrigins',
+    ]);
+  });
+
+  it('only evaluates rules for provided fields', () => {
+    expect(evaluatePolicy({ network: 'base' }, policy).map((c) => c.rule)).toEqual(['allowedNetworks']);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { PaymentPayload } from '@x402/core/types';
+import { forgetPayment, getKeptPayment, keepPayment, recoveryStatus, type PendingPayment } from '../src/x402/recovery';
+import { resubmitPayment } from '../src/x402/client';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+function pending(overrides: Partial<PendingPayment> = {}): PendingPayment {
+  return {
+    id: '0xnonce',
+    url: 'https://api.example.com/paid',
+    request: { method: 'GET', headers: {} },
+    payload: { x402Version: 2, payload: {} } as unknown as PaymentPayload,
+    paymentRequired: { x402Version: 2, accepts: [] } as unknown as PendingPayment['paymentRequired'],
+    authorization: {
+      from: '0x0000000000000000000000000000000000000001',
+      to: '0x0000000000000000000000000000000000000002',
+      value: '10000',
+      validAfter: '0',
+      validBefore: String((NOW + 120_000) / 1000),
+      nonce: '0xnonce',
+    },
+    signedAt: NOW,
+    expiresAt: NOW + 60_000,
+    submissions: 3,
+    ...overrides,
+  };
+}
+
+describe('recoveryStatus', () => {
+  it('reports a used authorization as settled', () => {
+    const result = recoveryStatus(pending(), { used: true, transactionHash: '0xtx' }, NOW + 10_000);
+    expect(result.status).toBe('settled');
+    expect(result.fundsMoved).toBe(true);
+    expect(result.transactionHash).toBe('0xtx');
+    expect(result.resubmittable).toBe(false);
+    expect(result.message).toContain('Do not pay again');
+  });
+
+  it('keeps an unused authorization pending while it is valid', () => {
+    const result = recoveryStatus(pending(), { used: false }, NOW + 10_000);
+    expect(result.status).toBe('pending');
+    expect(result.fundsMoved).toBe(false);
+    expect(result.resubmittable).toBe(true);
+    expect(result.validUntil).toBe(new Date(NOW + 60_000).toISOString());
+  });
+
+  it('stops re-submitting after expiresAt, but only calls it expired after validBefore', () => {
+    const late = recoveryStatus(pending(), { used: false }, NOW + 90_000);
+    expect(late.status).toBe('pending');
+    expect(late.resubmittable).toBe(false);
+
+    const expired = recoveryStatus(pending(), { used: false }, NOW + 200_000);
+    expect(expired.status).toBe('expired');
+    expect(expired.fundsMoved).toBe(false);
+  });
+
+  it('leaves funds unknown when the chain cannot be checked', () => {
+    const result = recoveryStatus(pending(), new Error('RPC down'), NOW + 10_000);
+    expect(result.status).toBe('unknown');
+    expect(result.fundsMoved).toBeUndefined();
+    expect(result.resubmittable).toBe(true);
+    expect(result.message).toContain('RPC down');
+  });
+});
+
+describe('kept payments', () => {
+  it('are kept until forgotten', () => {
+    const payment = pending({ id: '0xkept', expiresAt: Date.now() + 60_000 });
+    keepPayment(payment);
+    expect(getKeptPayment('0xkept')).toBe(payment);
+    forgetPayment('0xkept');
+    expect(getKeptPayment('0xkept')).toBeUndefined();
+  });
+
+  it('are dropped an hour after they expire', () => {
+    keepPayment(pending({ id: '0xold', expiresAt: Date.now() - 2 * 60 * 60 * 1000 }));
+    expect(getKeptPayment('0xold')).toBeUndefined();
+  });
+});
+
+describe('resubmitPayment', () => {
+  const RPC_ENV = 'X402_RPC_EIP155_8453';
+  let server: ReturnType<typeof Bun.serve>;
+  let hits: Record<string, number>;
+  /** What the fake chain reports for authorizationState */
+  let settled: boolean;
+
+  /** JSON-RPC result for the calls checkAuthorization makes */
+  function rpcResult(method: string): unknown {
+    if (method === 'eth_call') return `0x${(settled ? '1' : '0').padStart(64, '0')}`;
+    if (method === 'eth_blockNumber') return '0x64';
+    if (method === 'eth_getLogs') return [];
+    if (method === 'eth_chainId') return '0x2105';
+    throw new Error(`Unexpected RPC method ${method}`);
+  }
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const path = new URL(req.url).pathname;
+        if (path === '/rpc') {
+          const body = (await req.json()) as { id: number; method: string } | { id: number; method: string }[];
+          const reply = (call: { id: number; method: string }) => ({ jsonrpc: '2.0', id: call.id, result: rpcResult(call.method) });
+          return Response.json(Array.isArray(body) ? body.map(reply) : reply(body));
+        }
+        hits[path] = (hits[path] ?? 0) + 1;
+        // Down for a whole round of retries, then back
+        if (path === '/flaky') {
+          return hits[path] <= 3
+            ? new Response('busy', { status: 503, headers: { 'retry-after': '0' } })
+            : Response.json({ ok: true });
+        }
+        // The first attempt settled before timing out, so the re-submission is refused
+        if (path === '/used') {
+          settled = true;
+          return new Response('authorization already used', { status: 402 });
+        }
+        // Points the payment header at another server
+        if (path === '/moved') {
+          return Response.redirect(`http://localhost:${server.port}/elsewhere`, 302);
+        }
+        if (path === '/elsewhere') return Response.json({ ok: true });
+        return new Response('not found', { status: 404 });
+      },
+    });
+    process.env[RPC_ENV] = `http://localhost:${server.port}/rpc`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    delete process.env[RPC_ENV];
+  });
+
+  beforeEach(() => {
+    hits = {};
+    settled = false;
+  });
+
+  function kept(id: string, path: string): PendingPayment {
+    const now = Date.now();
+    const payment = pending({
+      id,
+      url: `http://localhost:${server.port}${path}`,
+      requirement: {
+        scheme: 'exact',
+        network: 'eip155:8453',
+        amount: '10000',
+        asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+        payTo: '0x0000000000000000000000000000000000000002',
+        maxTimeoutSeconds: 60,
+      },
+      authorization: { ...pending().authorization!, nonce: id, validBefore: String(Math.floor((now + 120_000) / 1000)) },
+      signedAt: now,
+      expiresAt: now + 60_000,
+      submissions: 1,
+    });
+    keepPayment(payment);
+    return payment;
+  }
+
+  it('re-submits the same payment until the endpoint recovers', async () => {
+    const payment = kept(`0x${'a'.repeat(64)}`, '/flaky');
+    const result = await resubmitPayment(payment.id, { timeouts: { paidRequestSeconds: 5 } });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ ok: true });
+    expect(hits['/flaky']).toBe(4);
+    expect(payment.submissions).toBe(5);
+    expect(getKeptPayment(payment.id)).toBeUndefined();
+  });
+
+  it('checks the chain when a repeated payment is refused, and does not send it again', async () => {
+    const payment = kept(`0x${'b'.repeat(64)}`, '/used');
+    const result = await resubmitPayment(payment.id, { timeouts: { paidRequestSeconds: 5 } });
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(402);
+    expect(result.recovery).toMatchObject({ status: 'settled', fundsMoved: true });
+    expect(result.error?.message).toContain('Do not pay again');
+    expect(hits['/used']).toBe(1);
+    expect(getKeptPayment(payment.id)).toBeUndefined();
+  });
+
+  it('does not follow a redirect with the payment attached', async () => {
+    const payment = kept(`0x${'c'.repeat(64)}`, '/moved');
+    const result = await resubmitPayment(payment.id, { timeouts: { paidRequestSeconds: 5 } });
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(302);
+    expect(result.error?.message).toContain(`redirected to http://localhost:${server.port}/elsewhere`);
+    expect(hits['/moved']).toBe(1);
+    expect(hits['/elsewhere']).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { encodeBody, contentTypeHeader } from '../src/request-body';
+import { configDir } from '../src/config';
+
+let root: string;
+let dir: string;
+let audio: string;
+let secret: string;
+let confirmed: string[][];
+
+/** Upload options that confirm everything and record what was asked */
+const allow = () => ({ uploadsDir: dir, confirmUploads: async (paths: string[]) => void confirmed.push(paths) });
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'x402-body-'));
+  dir = join(root, 'uploads');
+  mkdirSync(dir);
+  audio = join(dir, 'clip.wav');
+  writeFileSync(audio, new Uint8Array([82, 73, 70, 70]));
+  secret = join(root, 'id_rsa');
+  writeFileSync(secret, 'private');
+  symlinkSync(secret, join(dir, 'link'));
+});
+
+beforeEach(() => {
+  confirmed = [];
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('encodeBody', () => {
+  it('sends JSON by default', async () => {
+    const encoded = await encodeBody({ q: 'x402' });
+    expect(encoded.body).toBe('{"q":"x402"}');
+    expect(contentTypeHeader(encoded)).toEqual({ 'Content-Type': 'application/json' });
+    expect((await encodeBody(undefined)).body).toBeUndefined();
+  });
+
+  it('sends text as-is and rejects non-strings', async () => {
+    const encoded = await encodeBody('hello', 'text');
+    expect(encoded.body).toBe('hello');
+    expect(encoded.contentType).toBe('text/plain; charset=utf-8');
+    await expect(encodeBody({ a: 1 }, 'text')).rejects.toThrow('needs a string body');
+  });
+
+  it('urlencodes form fields, repeating arrays', async () => {
+    const encoded = await encodeBody({ q: 'a b', tag: ['x', 'y'], n: 2 }, 'form');
+    expect(String(encoded.body)).toBe('q=a+b&tag=x&tag=y&n=2');
+    expect(encoded.contentType).toBe('application/x-www-form-urlencoded');
+    await expect(encodeBody({ f: { file: audio } }, 'form', allow())).rejects.toThrow('bodyType "multipart"');
+  });
+
+  it('uploads files in multipart bodies', async () => {
+    const encoded = await encodeBody(
+      { model: 'whisper', file: { file: 'clip.wav' }, options: { lang: 'en' } },
+      'multipart',
+      allow()
+    );
+    const form = encoded.body as FormData;
+    const file = form.get('file') as File;
+
+    expect(encoded.contentType).toBeUndefined();
+    expect(encoded.hasFiles).toBe(true);
+    expect(form.get('model')).toBe('whisper');
+    expect(form.get('options')).toBe('{"lang":"en"}');
+    expect(file.name).toBe('clip.wav');
+    expect(file.type).toBe('audio/wav');
+    expect(file.size).toBe(4);
+    expect(confirmed).toEqual([[audio]]);
+  });
+
+  it('reports unreadable uploads', async () => {
+    await expect(encodeBody({ file: { file: join(dir, 'missing.png') } }, 'multipart', allow())).rejects.toThrow(
+      'Cannot read upload'
+    );
+  });
+
+  it('refuses files outside the uploads directory, symlinks included', async () => {
+    await expect(encodeBody({ file: secret }, 'binary', allow())).rejects.toThrow('outside the uploads directory');
+    await expect(encodeBody({ file: '../id_rsa' }, 'binary', allow())).rejects.toThrow('outside the uploads directory');
+    await expect(encodeBody({ file: 'link' }, 'binary', allow())).rejects.toThrow('outside the uploads directory');
+    expect(confirmed).toEqual([]);
+  });
+
+  it('refuses uploads without an uploads directory or one holding the wallet', async () => {
+    const noDir = { confirmUploads: allow().confirmUploads };
+    await expect(encodeBody({ file: audio }, 'binary', noDir)).rejects.toThrow('File uploads are disabled');
+    await expect(encodeBody({ file: 'config.json' }, 'binary', { ...noDir, uploadsDir: configDir })).rejects.toThrow(
+      'which holds the wallet'
+    );
+  });
+
+  it('reads nothing until the upload is confirmed', async () => {
+    await expect(encodeBody({ file: audio }, 'binary', { uploadsDir: dir })).rejects.toThrow('need confirmation');
+    const refuse = async () => {
+      throw new Error('Upload files was not confirmed');
+    };
+    await expect(encodeBody({ file: audio }, 'binary', { uploadsDir: dir, confirmUploads: refuse })).rejects.toThrow(
+      'not confirmed'
+    );
+  });
+
+  it('sends a file or base64 data as a binary body', async () => {
+    const fromFile = await encodeBody({ file: audio, contentType: 'audio/x-wav' }, 'binary', allow());
+    expect(fromFile.contentType).toBe('audio/x-wav');
+    expect((fromFile.body as Blob).size).toBe(4);
+
+    const fromBase64 = await encodeBody({ base64: Buffer.from('abc').toString('base64') }, 'binary');
+    expect(fromBase64.contentType).toBe('application/octet-stream');
+    expect(await (fromBase64.body as Blob).text()).toBe('abc');
+    await expect(encodeBody('abc', 'binary')).rejects.toThrow('bodyType "binary" needs');
+  });
+});
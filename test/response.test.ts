@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'bun:test';
-import { mcpSuccess, mcpError, formatUSDC, parseUSDC } from '../src/response';
+import { pathToFileURL } from 'url';
+import { mcpSuccess, mcpError, mcpFile } from '../src/response';
+import { saveDownload } from '../src/downloads';
 
 describe('mcpSuccess', () => {
   it('wraps data in MCP content format', () => {
@@ -51,41 +53,20 @@ describe('mcpError', () => {
   });
 });
 
-describe('formatUSDC', () => {
-  it('formats whole dollars', () => {
-    expect(formatUSDC(1_000_000n)).toBe('$1.00');
-    expect(formatUSDC(10_000_000n)).toBe('$10.00');
-    expect(formatUSDC(100_000_000n)).toBe('$100.00');
-  });
-
-  it('formats cents', () => {
-    expect(formatUSDC(1_500_000n)).toBe('$1.50');
-    expect(formatUSDC(1_990_000n)).toBe('$1.99');
-    expect(formatUSDC(10_000n)).toBe('$0.01');
-  });
+describe('mcpFile', () => {
+  const bytes = new Uint8Array([1, 2, 3]);
 
-  it('formats zero', () => {
-    expect(formatUSDC(0n)).toBe('$0.00');
+  it('inlines small images', async () => {
+    const file = await saveDownload(bytes, { url: 'https://x.io/img', mimeType: 'image/png' });
+    expect(await mcpFile(file)).toEqual({ type: 'image', data: 'AQID', mimeType: 'image/png' });
   });
 
-  it('formats small amounts', () => {
-    expect(formatUSDC(100n)).toBe('$0.00'); // Rounds down
-    expect(formatUSDC(5_000n)).toBe('$0.01'); // Rounds up
-  });
-});
-
-describe('parseUSDC', () => {
-  it('parses dollar string', () => {
-    expect(parseUSDC('$1.00')).toBe(1_000_000n);
-    expect(parseUSDC('$10.50')).toBe(10_500_000n);
-  });
-
-  it('parses without dollar sign', () => {
-    expect(parseUSDC('1.00')).toBe(1_000_000n);
-    expect(parseUSDC('0.01')).toBe(10_000n);
-  });
+  it('links to large images and other files', async () => {
+    const image = await saveDownload(bytes, { url: 'https://x.io/img', mimeType: 'image/png' });
+    const large = await mcpFile({ ...image, size: 6 * 1024 * 1024 });
+    expect(large).toMatchObject({ type: 'resource_link', uri: pathToFileURL(image.path).href, mimeType: 'image/png' });
 
-  it('handles whitespace', () => {
-    expect(parseUSDC(' $5.00 ')).toBe(5_000_000n);
+    const audio = await saveDownload(bytes, { url: 'https://x.io/a', mimeType: 'audio/mpeg' });
+    expect(await mcpFile(audio)).toMatchObject({ type: 'resource_link', description: `3 bytes saved to ${audio.path}` });
   });
 });
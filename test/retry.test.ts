@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { CancelledError, TimeoutError, fetchWithRetry, retryDelay, sleep } from '../src/x402/retry';
+
+describe('retryDelay', () => {
+  it('backs off exponentially with jitter, up to the cap', () => {
+    for (let i = 0; i < 20; i++) {
+      const first = retryDelay(1);
+      expect(first).toBeGreaterThanOrEqual(250);
+      expect(first).toBeLessThanOrEqual(500);
+      expect(retryDelay(10)).toBeLessThanOrEqual(8_000);
+    }
+  });
+
+  it('honors Retry-After in seconds or as a date, capped', () => {
+    expect(retryDelay(1, '2')).toBe(2_000);
+    expect(retryDelay(1, '600')).toBe(8_000);
+    const date = new Date(Date.now() + 3_000).toUTCString();
+    expect(retryDelay(1, date)).toBeGreaterThan(1_000);
+    expect(retryDelay(1, date)).toBeLessThanOrEqual(3_000);
+  });
+
+  it('ignores an unparseable Retry-After', () => {
+    expect(retryDelay(1, 'soon')).toBeLessThanOrEqual(500);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects with CancelledError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(10_000, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toBeInstanceOf(CancelledError);
+  });
+});
+
+describe('fetchWithRetry', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let hits: Record<string, number>;
+  let url: (path: string) => string;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const path = new URL(req.url).pathname;
+        hits[path] = (hits[path] ?? 0) + 1;
+        if (path === '/flaky' && hits[path] === 1) {
+          return new Response('busy', { status: 503, headers: { 'retry-after': '0' } });
+        }
+        if (path === '/down') return new Response('busy', { status: 503, headers: { 'retry-after': '0' } });
+        if (path === '/settled') return new Response('busy', { status: 503, headers: { 'x-settled': 'yes' } });
+        if (path === '/slow') await Bun.sleep(1_000);
+        return new Response('ok');
+      },
+    });
+    url = (path) => `http://localhost:${server.port}${path}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const options = { label: 'Test request', timeoutMs: () => 5_000, maxAttempts: 3 };
+
+  it('retries a retryable status and returns the later response', async () => {
+    hits = {};
+    const outcome = await fetchWithRetry(url('/flaky'), {}, options);
+    expect(outcome.ok).toBe(true);
+    if (!outcome.ok) return;
+    outcome.deadline.clear();
+    expect(outcome.attempts).toBe(2);
+    expect(await outcome.response.text()).toBe('ok');
+  });
+
+  it('returns the last retryable response once attempts run out', async () => {
+    hits = {};
+    const outcome = await fetchWithRetry(url('/down'), {}, options);
+    expect(outcome.ok && outcome.response.status).toBe(503);
+    if (outcome.ok) outcome.deadline.clear();
+    expect(hits['/down']).toBe(3);
+  });
+
+  it('does not retry when canRetry refuses or the response is final', async () => {
+    hits = {};
+    await fetchWithRetry(url('/down'), {}, { ...options, canRetry: () => false });
+    expect(hits['/down']).toBe(1);
+
+    const outcome = await fetchWithRetry(url('/settled'), {}, {
+      ...options,
+      isFinal: (response) => response.headers.has('x-settled'),
+    });
+    if (outcome.ok) outcome.deadline.clear();
+    expect(hits['/settled']).toBe(1);
+  });
+
+  it('fails with TimeoutError when no attempt answers in time', async () => {
+    hits = {};
+    const outcome = await fetchWithRetry(url('/slow'), {}, { ...options, timeoutMs: () => 50, maxAttempts: 2, canRetry: () => true });
+    expect(outcome.ok).toBe(false);
+    if (outcome.ok) return;
+    expect(outcome.error).toBeInstanceOf(TimeoutError);
+    expect(outcome.error.message).toBe('Test request timed out after 0.05s');
+    expect(outcome.attempts).toBe(2);
+  });
+
+  it('stops on cancellation without retrying', async () => {
+    hits = {};
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const outcome = await fetchWithRetry(url('/slow'), {}, { ...options, signal: controller.signal });
+    expect(outcome.ok).toBe(false);
+    if (outcome.ok) return;
+    expect(outcome.error).toBeInstanceOf(CancelledError);
+    expect(outcome.attempts).toBe(1);
+    expect(hits['/slow']).toBe(1);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'bun:test';
+import { PaymentRefusedError } from '../src/x402/client';
+import {
+  checkFunding,
+  comparePrices,
+  pricesComparable,
+  rankOptions,
+  selectRequirements,
+  type BalanceReader,
+  type RequirementOption,
+} from '../src/x402/selection';
+import type { NormalizedRequirement } from '../src/x402/protocol';
+import { money } from '../src/money';
+import { TEST_NETWORK, TEST_TOKEN } from './fixtures';
+
+const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const POLYGON_USDC = '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359';
+
+function requirement(network: string, amount: string, asset = BASE_USDC): NormalizedRequirement {
+  return { scheme: 'exact', network, amount, asset, payTo: '0x1234567890123456789012345678901234567890', maxTimeoutSeconds: 60 };
+}
+
+function option(network: string, amount: bigint, fundable?: boolean): RequirementOption {
+  return { requirement: requirement(network, amount.toString()), price: money(amount), fundable };
+}
+
+const networks = (options: RequirementOption[]) => options.map((o) => o.requirement.network);
+
+describe('comparePrices', () => {
+  it('compares raw amounts of the same asset', () => {
+    expect(comparePrices(money(1_000n), money(2_000n))).toBe(-1);
+    expect(comparePrices(money(2_000n), money(1_000n))).toBe(1);
+    expect(comparePrices(money(1_000n), money(1_000n))).toBe(0);
+  });
+
+  it('compares the same asset across decimals', () => {
+    const usdc18 = { decimals: 18, symbol: 'USDC' };
+    expect(comparePrices(money(1_000_000n), money(10n ** 18n, usdc18))).toBe(0);
+    expect(comparePrices(money(1_000_000n), money(2n * 10n ** 17n, usdc18))).toBe(1);
+  });
+});
+
+describe('pricesComparable', () => {
+  it('holds only when every price is in one asset', () => {
+    expect(pricesComparable([money(1n), money(2n, { decimals: 18, symbol: 'usdc' })])).toBe(true);
+    expect(pricesComparable([money(1n), money(2n, { decimals: 6, symbol: 'EURC' })])).toBe(false);
+  });
+});
+
+describe('rankOptions', () => {
+  const options = [
+    option('eip155:8453', 20_000n, false),
+    option('eip155:137', 30_000n, true),
+    option('solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp', 10_000n, true),
+    option('eip155:42161', 5_000n),
+  ];
+
+  it('puts fundable options first, cheapest first, and unfundable last', () => {
+    expect(networks(rankOptions(options, 'cheapest'))).toEqual([
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+      'eip155:137',
+      'eip155:42161',
+      'eip155:8453',
+    ]);
+  });
+
+  it('breaks price ties with the preferred network, then endpoint order', () => {
+    const tied = [option('eip155:8453', 10_000n, true), option('eip155:137', 10_000n, true), option('eip155:10', 10_000n, true)];
+    expect(networks(rankOptions(tied, 'cheapest', 'polygon'))).toEqual(['eip155:137', 'eip155:8453', 'eip155:10']);
+  });
+
+  it('does not rank different assets by price', () => {
+    const eurc = { decimals: 6, symbol: 'EURC' };
+    const mixed: RequirementOption[] = [
+      option('eip155:8453', 20_000n, true),
+      { requirement: requirement('eip155:137', '10000', POLYGON_USDC), price: money(10_000n, eurc), fundable: true },
+      option('eip155:10', 5_000n, true),
+    ];
+    expect(networks(rankOptions(mixed, 'cheapest', 'eip155:10'))).toEqual(['eip155:10', 'eip155:8453', 'eip155:137']);
+  });
+
+  it('moves only the preferred network for the preferred strategy', () => {
+    expect(networks(rankOptions(options, 'preferred', 'eip155:42161'))).toEqual([
+      'eip155:42161',
+      'eip155:8453',
+      'eip155:137',
+      'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+    ]);
+  });
+
+  it('keeps endpoint order for the first strategy', () => {
+    expect(networks(rankOptions(options, 'first', 'eip155:137'))).toEqual(networks(options));
+  });
+});
+
+describe('selectRequirements', () => {
+  const accepts = [requirement('eip155:8453', '10000'), requirement('eip155:137', '10000', POLYGON_USDC)];
+  const addressFor = () => '0x0000000000000000000000000000000000000001';
+
+  it('restricts to the requested network', async () => {
+    const ranked = await selectRequirements(accepts, { strategy: 'first', network: 'polygon', addressFor });
+    expect(networks(ranked)).toEqual(['eip155:137']);
+  });
+
+  it('refuses when the endpoint does not accept the requested network', async () => {
+    const error = await selectRequirements(accepts, { strategy: 'first', network: 'eip155:10', addressFor }).catch(
+      (err) => err
+    );
+    expect(error).toBeInstanceOf(PaymentRefusedError);
+    expect(error.phase).toBe('select_requirement');
+    expect(error.details.accepted).toEqual(['eip155:8453', 'eip155:137']);
+  });
+
+  /** Balance reader over fixed balances per network. Networks without one fail the lookup */
+  function balances(byNetwork: Record<string, bigint>): BalanceReader & { calls: string[] } {
+    const calls: string[] = [];
+    const read = async (_address: string, network: string) => {
+      calls.push(network);
+      if (byNetwork[network] === undefined) throw new Error(`RPC down for ${network}`);
+      return byNetwork[network];
+    };
+    return Object.assign(read, { calls });
+  }
+
+  it('ranks by price when only an option the wallet cannot fund is in another asset', async () => {
+    const mixed = [
+      requirement('eip155:8453', '20000'),
+      requirement(TEST_NETWORK, '100', TEST_TOKEN),
+      requirement('eip155:137', '10000', POLYGON_USDC),
+    ];
+    const readBalance = balances({ 'eip155:8453': 50_000n, [TEST_NETWORK]: 0n, 'eip155:137': 50_000n });
+    const ranked = await selectRequirements(mixed, { strategy: 'cheapest', addressFor, readBalance });
+    expect(networks(ranked)).toEqual(['eip155:137', 'eip155:8453']);
+  });
+
+  it('pays from the network the wallet can fund', async () => {
+    const readBalance = balances({ 'eip155:8453': 0n, 'eip155:137': 50_000n });
+    const ranked = await selectRequirements(accepts, { strategy: 'cheapest', addressFor, readBalance });
+    expect(networks(ranked)).toEqual(['eip155:137']);
+  });
+
+  it('tries options with unknown balances after fundable ones', async () => {
+    const readBalance = balances({ 'eip155:137': 50_000n });
+    const ranked = await selectRequirements(accepts, { strategy: 'cheapest', addressFor, readBalance });
+    expect(networks(ranked)).toEqual(['eip155:137', 'eip155:8453']);
+    expect(ranked[1].balanceError).toBe('RPC down for eip155:8453');
+  });
+
+  it('refuses with each shortfall when no option can be funded', async () => {
+    const readBalance = balances({ 'eip155:8453': 4_000n, 'eip155:137': 0n });
+    const error = await selectRequirements(accepts, { strategy: 'cheapest', addressFor, readBalance }).catch((err) => err);
+    expect(error).toBeInstanceOf(PaymentRefusedError);
+    expect(error.phase).toBe('insufficient_balance');
+    expect(error.details.options).toMatchObject([
+      { network: 'eip155:8453', balanceRaw: '4000', shortfallRaw: '6000', fundable: false },
+      { network: 'eip155:137', balanceRaw: '0', shortfallRaw: '10000', fundable: false },
+    ]);
+  });
+
+  it('does not read balances for the other strategies', async () => {
+    const readBalance = balances({});
+    await selectRequirements(accepts, { strategy: 'preferred', addressFor, readBalance });
+    expect(readBalance.calls).toEqual([]);
+  });
+});
+
+describe('checkFunding', () => {
+  const addressFor = () => '0x0000000000000000000000000000000000000001';
+
+  it('reads each network and asset once and compares against the price', async () => {
+    const calls: string[] = [];
+    const readBalance: BalanceReader = async (_address, network, asset) => {
+      calls.push(`${network}/${asset}`);
+      return 10_000n;
+    };
+    const options = await checkFunding(
+      [requirement('base', '10000'), requirement('eip155:8453', '20000'), requirement('eip155:137', '5000', POLYGON_USDC)],
+      addressFor,
+      readBalance
+    );
+    expect(options.map((o) => o.fundable)).toEqual([true, false, true]);
+    expect(calls).toEqual([`eip155:8453/${BASE_USDC}`, `eip155:137/${POLYGON_USDC}`]);
+  });
+
+  it('leaves unsupported networks unknown without reading them', async () => {
+    const readBalance: BalanceReader = async () => {
+      throw new Error('should not be read');
+    };
+    const [option] = await checkFunding([requirement('eip155:999', '1')], addressFor, readBalance);
+    expect(option.fundable).toBeUndefined();
+    expect(option.balanceError).toBe('Unsupported network: eip155:999');
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { encodeAbiParameters, encodeEventTopics, parseAbi, type Log } from 'viem';
+import { checkAuthorization, checkSettlementLogs, verifySettlement } from '../src/settlement';
+
+const ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce)',
+]);
+
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const PAYER = '0x0000000000000000000000000000000000000001';
+const PAY_TO = '0x0000000000000000000000000000000000000002';
+const NONCE = `0x${'ab'.repeat(32)}` as const;
+const OTHER_NONCE = `0x${'cd'.repeat(32)}` as const;
+const TX = `0x${'11'.repeat(32)}` as const;
+
+function rawLog(address: string, topics: `0x${string}`[], data: `0x${string}` = '0x'): Log {
+  return {
+    address: address as `0x${string}`,
+    topics: topics as Log['topics'],
+    data,
+    blockHash: `0x${'22'.repeat(32)}`,
+    blockNumber: 100n,
+    logIndex: 0,
+    transactionHash: TX,
+    transactionIndex: 0,
+    removed: false,
+  };
+}
+
+function transferLog(from: string, to: string, value: bigint, asset = USDC): Log {
+  const topics = encodeEventTopics({
+    abi: ABI,
+    eventName: 'Transfer',
+    args: { from: from as `0x${string}`, to: to as `0x${string}` },
+  });
+  return rawLog(asset, topics as `0x${string}`[], encodeAbiParameters([{ type: 'uint256' }], [value]));
+}
+
+function authorizationLog(authorizer: string, nonce: `0x${string}`, asset = USDC): Log {
+  const topics = encodeEventTopics({
+    abi: ABI,
+    eventName: 'AuthorizationUsed',
+    args: { authorizer: authorizer as `0x${string}`, nonce },
+  });
+  return rawLog(asset, topics as `0x${string}`[]);
+}
+
+const expected = {
+  network: 'eip155:8453',
+  asset: USDC,
+  amount: '10000',
+  payTo: PAY_TO,
+  payer: PAYER,
+  nonce: NONCE,
+};
+
+describe('checkSettlementLogs', () => {
+  it('accepts the transfer and the authorization of the signed nonce', () => {
+    const result = checkSettlementLogs([transferLog(PAYER, PAY_TO, 10_000n), authorizationLog(PAYER, NONCE)], expected);
+    expect(result.errors).toEqual([]);
+    expect(result.checks).toEqual({ amountMatches: true, payToMatches: true, payerMatches: true, authorizationUsed: true });
+    expect(result.transfer).toEqual({ from: PAYER, to: PAY_TO, value: '10000' });
+  });
+
+  it('rejects an AuthorizationUsed event for another nonce of the same payer', () => {
+    const result = checkSettlementLogs(
+      [transferLog(PAYER, PAY_TO, 10_000n), authorizationLog(PAYER, OTHER_NONCE)],
+      expected
+    );
+    expect(result.checks.authorizationUsed).toBe(false);
+    expect(result.errors[0]).toContain(`nonce ${NONCE}`);
+  });
+
+  it('cannot match an authorization without a nonce', () => {
+    const result = checkSettlementLogs([transferLog(PAYER, PAY_TO, 10_000n), authorizationLog(PAYER, NONCE)], {
+      ...expected,
+      nonce: undefined,
+    });
+    expect(result.checks.authorizationUsed).toBe(false);
+  });
+
+  it('reports the closest transfer when none matches', () => {
+    const result = checkSettlementLogs(
+      [transferLog(PAY_TO, PAYER, 1n), transferLog(PAYER, PAY_TO, 5_000n), authorizationLog(PAYER, NONCE)],
+      expected
+    );
+    expect(result.transfer?.value).toBe('5000');
+    expect(result.checks).toMatchObject({ payerMatches: true, payToMatches: true, amountMatches: false });
+    expect(result.errors).toEqual(['Transfer value $0.005 does not match amount $0.01']);
+  });
+
+  it('ignores logs from other contracts', () => {
+    const other = '0x0000000000000000000000000000000000000003';
+    const result = checkSettlementLogs(
+      [transferLog(PAYER, PAY_TO, 10_000n, other), authorizationLog(PAYER, NONCE, other)],
+      expected
+    );
+    expect(result.transfer).toBeUndefined();
+    expect(result.checks.authorizationUsed).toBe(false);
+    expect(result.errors).toHaveLength(2);
+  });
+});
+
+describe('settlement on a fake chain', () => {
+  const RPC_ENV = 'X402_RPC_EIP155_8453';
+  let server: ReturnType<typeof Bun.serve>;
+  /** What authorizationState returns */
+  let used: boolean;
+  let logs: Log[];
+
+  const rpcLog = (l: Log) => ({
+    ...l,
+    blockNumber: `0x${l.blockNumber!.toString(16)}`,
+    logIndex: '0x0',
+    transactionIndex: '0x0',
+  });
+
+  function rpcResult(method: string): unknown {
+    switch (method) {
+      case 'eth_call':
+        return `0x${(used ? '1' : '0').padStart(64, '0')}`;
+      case 'eth_blockNumber':
+        return '0x65';
+      case 'eth_chainId':
+        return '0x2105';
+      case 'eth_getLogs':
+        return logs.filter((l) => l.topics[0] === authorizationLog(PAYER, NONCE).topics[0]).map(rpcLog);
+      case 'eth_getTransactionReceipt':
+        return {
+          transactionHash: TX,
+          transactionIndex: '0x0',
+          blockHash: `0x${'22'.repeat(32)}`,
+          blockNumber: '0x64',
+          from: PAY_TO,
+          to: USDC,
+          cumulativeGasUsed: '0x1',
+          gasUsed: '0x1',
+          effectiveGasPrice: '0x1',
+          contractAddress: null,
+          logs: logs.map(rpcLog),
+          logsBloom: `0x${'0'.repeat(512)}`,
+          status: '0x1',
+          type: '0x2',
+        };
+      default:
+        throw new Error(`Unexpected RPC method ${method}`);
+    }
+  }
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        type Call = { id: number; method: string };
+        const body = (await req.json()) as Call | Call[];
+        const reply = (call: Call) => ({ jsonrpc: '2.0', id: call.id, result: rpcResult(call.method) });
+        return Response.json(Array.isArray(body) ? body.map(reply) : reply(body));
+      },
+    });
+    process.env[RPC_ENV] = `http://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    delete process.env[RPC_ENV];
+  });
+
+  beforeEach(() => {
+    used = false;
+    logs = [transferLog(PAYER, PAY_TO, 10_000n), authorizationLog(PAYER, NONCE)];
+  });
+
+  it('verifies a settlement with its receipt and confirmations', async () => {
+    const result = await verifySettlement({ ...expected, transactionHash: TX, reportedNetwork: 'base' });
+    expect(result.verified).toBe(true);
+    expect(result.status).toBe('success');
+    expect(result.confirmations).toBe(2);
+  });
+
+  it('flags a settlement reported on another network', async () => {
+    const result = await verifySettlement({ ...expected, transactionHash: TX, reportedNetwork: 'eip155:10' });
+    expect(result.verified).toBe(false);
+    expect(result.errors).toEqual(['Settlement was reported on eip155:10, but the payment was signed for eip155:8453']);
+  });
+
+  it('looks an authorization up by nonce', async () => {
+    const query = { network: 'base', asset: USDC, authorizer: PAYER, nonce: NONCE };
+    expect(await checkAuthorization(query)).toEqual({ used: false });
+    used = true;
+    expect(await checkAuthorization(query)).toEqual({ used: true, transactionHash: TX });
+  });
+});
@@ -0,0 +1,12 @@
+import { afterAll } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TEST_CONFIG } from './fixtures';
+
+// Runs before any test imports src/, so config, wallets, ledger and log live in a fresh directory
+const dir = mkdtempSync(join(tmpdir(), 'x402scan-test-'));
+process.env.X402_CONFIG_DIR = dir;
+writeFileSync(join(dir, 'config.json'), JSON.stringify(TEST_CONFIG));
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
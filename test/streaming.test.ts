@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'bun:test';
+import { chunkText, readStream, streamFormat, type StreamChunk } from '../src/streaming';
+
+/** Response whose body arrives in the given pieces, optionally failing after them */
+function streamed(pieces: string[], fail?: Error): Response {
+  const encoder = new TextEncoder();
+  const queue = [...pieces];
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const piece = queue.shift();
+      if (piece !== undefined) controller.enqueue(encoder.encode(piece));
+      else if (fail) controller.error(fail);
+      else controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+describe('streamFormat', () => {
+  it('recognizes SSE and NDJSON', () => {
+    expect(streamFormat('text/event-stream')).toBe('sse');
+    expect(streamFormat('application/x-ndjson')).toBe('ndjson');
+    expect(streamFormat('application/json')).toBeUndefined();
+  });
+});
+
+describe('chunkText', () => {
+  it('reads plain strings and LLM deltas', () => {
+    expect(chunkText('hi')).toBe('hi');
+    expect(chunkText({ choices: [{ delta: { content: 'Hel' } }] })).toBe('Hel');
+    expect(chunkText({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'lo' } })).toBe('lo');
+    expect(chunkText({ progress: 0.5 })).toBeUndefined();
+  });
+});
+
+describe('readStream', () => {
+  it('assembles SSE events split across reads', async () => {
+    const forwarded: StreamChunk[] = [];
+    const result = await readStream(
+      streamed([
+        ': keep-alive\n\n',
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\r',
+        '\n\r\nid: 2\ndata: {"choices":[{"delta":{"content":"lo"}}]}\n\n',
+        'event: done\ndata: {"usage":{"tokens":2}}\n\ndata: [DONE]\n\n',
+      ]),
+      'sse',
+      (chunk) => forwarded.push(chunk)
+    );
+
+    expect(result.text).toBe('Hello');
+    expect(result.chunks).toEqual([
+      { index: 0, data: { choices: [{ delta: { content: 'Hel' } }] } },
+      { index: 1, id: '2', data: { choices: [{ delta: { content: 'lo' } }] } },
+      { index: 2, event: 'done', id: '2', data: { usage: { tokens: 2 } } },
+    ]);
+    expect(forwarded).toEqual(result.chunks);
+  });
+
+  it('joins multi-line SSE data and keeps non-JSON as strings', async () => {
+    const result = await readStream(streamed(['data: line one\ndata: line two\n\n']), 'sse');
+    expect(result.chunks).toEqual([{ index: 0, data: 'line one\nline two' }]);
+    expect(result.text).toBe('line one\nline two');
+  });
+
+  it('reads NDJSON lines, including a last line without a newline', async () => {
+    const result = await readStream(streamed(['{"step":1}\n{"st', 'ep":2}\n\n{"step":3}']), 'ndjson');
+    expect(result.chunks.map((c) => c.data)).toEqual([{ step: 1 }, { step: 2 }, { step: 3 }]);
+    expect(result.text).toBeUndefined();
+  });
+
+  it('keeps the chunks received before the stream broke', async () => {
+    const result = await readStream(streamed(['{"step":1}\n'], new Error('socket closed')), 'ndjson');
+    expect(result.chunks).toHaveLength(1);
+    expect(result.error).toBe('Stream ended early: socket closed');
+  });
+
+  it('stops once the stream passes maxBytes', async () => {
+    const result = await readStream(streamed(['{"step":1}\n', '{"step":2}\n', '{"step":3}\n']), 'ndjson', undefined, 25);
+    expect(result.chunks.map((c) => c.data)).toEqual([{ step: 1 }, { step: 2 }]);
+    expect(result.error).toBe('Stream ended early: stream is larger than the 25 byte limit');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { decodeFunctionData, parseAbi, parseTransaction, type TransactionSerializedEIP1559 } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { money } from '../src/money';
+import { estimateTransfer, sendUSDC, transferAmount } from '../src/transfer';
+import { TEST_NETWORK, TEST_RPC_ENV, TEST_USDC } from './fixtures';
+
+const account = privateKeyToAccount(`0x${'11'.repeat(32)}`);
+const TO = '0x0000000000000000000000000000000000000002';
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const TX = `0x${'33'.repeat(32)}` as const;
+const GAS = 50_000n;
+const hex = (n: bigint) => `0x${n.toString(16)}`;
+const TRANSFER_ABI = parseAbi(['function transfer(address to, uint256 value) returns (bool)']);
+
+describe('transferAmount', () => {
+  const usdc18 = money(5n * 10n ** 18n, { decimals: 18, symbol: 'USDC' });
+
+  it("parses USD amounts at the token's decimals", () => {
+    expect(transferAmount('$1', money(5_000_000n)).raw).toBe(1_000_000n);
+    expect(transferAmount('$1', usdc18)).toEqual({ raw: 10n ** 18n, decimals: 18, symbol: 'USDC' });
+    expect(transferAmount('0.5', usdc18).raw).toBe(5n * 10n ** 17n);
+    expect(transferAmount('raw:7', usdc18).raw).toBe(7n);
+  });
+
+  it('sends the whole balance for max', () => {
+    expect(transferAmount(' MAX ', usdc18)).toEqual(usdc18);
+  });
+
+  it('refuses bare integers', () => {
+    expect(() => transferAmount('1', usdc18)).toThrow('Ambiguous amount');
+  });
+});
+
+describe('USDC transfers on a fake chain', () => {
+  const RPC_ENV = 'X402_RPC_EIP155_8453';
+  let server: ReturnType<typeof Bun.serve>;
+  let baseFee: bigint;
+  let nativeBalance: bigint;
+  let sent: `0x${string}`[];
+
+  function rpcResult(method: string, params: unknown[], chainId: string): unknown {
+    switch (method) {
+      case 'eth_chainId':
+        return chainId;
+      case 'eth_blockNumber':
+        return '0x64';
+      case 'eth_estimateGas':
+        return hex(GAS);
+      case 'eth_maxPriorityFeePerGas':
+        return '0x1';
+      case 'eth_getBlockByNumber':
+        return { number: '0x64', hash: `0x${'22'.repeat(32)}`, baseFeePerGas: hex(baseFee), timestamp: '0x1', transactions: [] };
+      case 'eth_getBalance':
+        return hex(nativeBalance);
+      case 'eth_getTransactionCount':
+        return '0x0';
+      case 'eth_sendRawTransaction':
+        sent.push(params[0] as `0x${string}`);
+        return TX;
+      case 'eth_getTransactionReceipt':
+        return {
+          transactionHash: TX,
+          transactionIndex: '0x0',
+          blockHash: `0x${'22'.repeat(32)}`,
+          blockNumber: '0x64',
+          from: account.address,
+          to: USDC,
+          cumulativeGasUsed: '0x1',
+          gasUsed: hex(GAS),
+          effectiveGasPrice: '0x1',
+          contractAddress: null,
+          logs: [],
+          logsBloom: `0x${'0'.repeat(512)}`,
+          status: '0x1',
+          type: '0x2',
+        };
+      default:
+        return undefined;
+    }
+  }
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        type Call = { id: number; method: string; params?: unknown[] };
+        const body = (await req.json()) as Call | Call[];
+        // The config test chain is served under /test
+        const chainId = new URL(req.url).pathname === '/test' ? '0x7a69' : '0x2105';
+        const reply = (call: Call) => {
+          const result = rpcResult(call.method, call.params ?? [], chainId);
+          // Unknown methods (eth_fillTransaction) make viem fill the transaction itself
+          return result === undefined
+            ? { jsonrpc: '2.0', id: call.id, error: { code: -32601, message: `${call.method} not supported` } }
+            : { jsonrpc: '2.0', id: call.id, result };
+        };
+        return Response.json(Array.isArray(body) ? body.map(reply) : reply(body));
+      },
+    });
+    process.env[RPC_ENV] = `http://localhost:${server.port}`;
+    process.env[TEST_RPC_ENV] = `http://localhost:${server.port}/test`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    delete process.env[RPC_ENV];
+    delete process.env[TEST_RPC_ENV];
+  });
+
+  beforeEach(() => {
+    baseFee = 1_000n;
+    nativeBalance = 10n ** 18n;
+    sent = [];
+  });
+
+  const transfer = { account, network: 'base', to: TO as `0x${string}`, amount: 5_000_000n };
+
+  it('prices gas against the native balance', async () => {
+    const estimate = await estimateTransfer(transfer);
+    expect(estimate.gas).toBe(GAS);
+    expect(estimate.maxFee).toBe(GAS * estimate.maxFeePerGas);
+    expect(estimate.nativeSymbol).toBe('ETH');
+    expect(estimate.sufficientGas).toBe(true);
+
+    nativeBalance = 0n;
+    expect((await estimateTransfer(transfer)).sufficientGas).toBe(false);
+  });
+
+  it('sends with fees estimated at send time, not at confirmation', async () => {
+    const confirmed = await estimateTransfer(transfer);
+    baseFee = 5_000n;
+
+    const result = await sendUSDC(transfer);
+    expect(result).toMatchObject({ transactionHash: TX, status: 'success', gasUsed: GAS.toString() });
+
+    expect(sent).toHaveLength(1);
+    const tx = parseTransaction(sent[0] as TransactionSerializedEIP1559);
+    expect(tx.to?.toLowerCase()).toBe(USDC.toLowerCase());
+    expect(tx.gas).toBe(GAS);
+    expect(tx.maxFeePerGas! > confirmed.maxFeePerGas).toBe(true);
+    const call = decodeFunctionData({ abi: TRANSFER_ABI, data: tx.data! });
+    expect(call.args).toEqual([TO, 5_000_000n]);
+  });
+
+  it('sends $1 of an 18-decimal USDC as 10^18 units', async () => {
+    const amount = transferAmount('$1', money(5n * 10n ** 18n, { decimals: 18, symbol: 'USDC' }));
+    await sendUSDC({ ...transfer, network: TEST_NETWORK, amount: amount.raw });
+
+    const tx = parseTransaction(sent[0] as TransactionSerializedEIP1559);
+    expect(tx.chainId).toBe(31337);
+    expect(tx.to).toBe(TEST_USDC);
+    expect(decodeFunctionData({ abi: TRANSFER_ABI, data: tx.data! }).args).toEqual([TO, 10n ** 18n]);
+  });
+
+  it('refuses to send when gas became unaffordable', async () => {
+    nativeBalance = 1n;
+    await expect(sendUSDC(transfer)).rejects.toThrow('Not enough ETH for gas');
+    expect(sent).toEqual([]);
+  });
+});